@@ -1,7 +1,7 @@
 import type { Config } from "drizzle-kit";
 
 export default {
-  schema: "./src/schema.ts",
+  schema: "./src/db/schema.ts",
   out: "./drizzle",
   driver: "d1",
   dbCredentials: {
@@ -0,0 +1,34 @@
+CREATE TABLE `budget_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`category` text NOT NULL,
+	`status` text NOT NULL,
+	`cost` real NOT NULL,
+	`variance` real DEFAULT 0,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `item_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`item_id` text,
+	`category_id` integer,
+	`area_id` text,
+	`action` text NOT NULL,
+	`field` text,
+	`old_value` text,
+	`new_value` text,
+	`actor` text,
+	`created_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `system_logs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`level` text NOT NULL,
+	`component` text NOT NULL,
+	`message` text NOT NULL,
+	`metadata` text,
+	`created_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `item_events_item_idx` ON `item_events` (`item_id`);--> statement-breakpoint
+CREATE INDEX `item_events_area_idx` ON `item_events` (`area_id`);
\ No newline at end of file
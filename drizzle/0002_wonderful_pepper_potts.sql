@@ -0,0 +1 @@
+ALTER TABLE items ADD `deleted_at` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE items ADD `version` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+-- Full-text index over item labels and notes, kept in sync by triggers.
+-- item_id is stored rather than using external content because items has no INTEGER PRIMARY KEY.
+CREATE VIRTUAL TABLE `items_fts` USING fts5(`item_id` UNINDEXED, `label`, `note`, tokenize = 'porter unicode61');
+--> statement-breakpoint
+CREATE TRIGGER `items_fts_insert` AFTER INSERT ON `items` BEGIN
+	INSERT INTO `items_fts` (`item_id`, `label`, `note`) VALUES (new.`id`, new.`label`, new.`note`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_fts_delete` AFTER DELETE ON `items` BEGIN
+	DELETE FROM `items_fts` WHERE `item_id` = old.`id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_fts_update` AFTER UPDATE OF `label`, `note` ON `items` BEGIN
+	UPDATE `items_fts` SET `label` = new.`label`, `note` = new.`note` WHERE `item_id` = old.`id`;
+END;
+--> statement-breakpoint
+INSERT INTO `items_fts` (`item_id`, `label`, `note`) SELECT `id`, `label`, `note` FROM `items`;
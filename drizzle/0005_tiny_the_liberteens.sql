@@ -0,0 +1,3 @@
+ALTER TABLE items ADD `due_date` text;--> statement-breakpoint
+ALTER TABLE items ADD `assignee` text;--> statement-breakpoint
+ALTER TABLE items ADD `trade` text;
\ No newline at end of file
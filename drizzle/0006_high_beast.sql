@@ -0,0 +1,10 @@
+CREATE TABLE `item_dependencies` (
+	`item_id` text NOT NULL,
+	`depends_on_id` text NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL,
+	PRIMARY KEY(`depends_on_id`, `item_id`),
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`depends_on_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `item_dependencies_item_idx` ON `item_dependencies` (`item_id`);
\ No newline at end of file
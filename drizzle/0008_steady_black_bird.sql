@@ -0,0 +1,26 @@
+CREATE TABLE `decision_options` (
+	`id` text PRIMARY KEY NOT NULL,
+	`decision_id` text NOT NULL,
+	`label` text NOT NULL,
+	`description` text,
+	`price` integer DEFAULT 0 NOT NULL,
+	`sort_order` integer NOT NULL,
+	FOREIGN KEY (`decision_id`) REFERENCES `decisions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `decisions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`area_id` text NOT NULL,
+	`title` text NOT NULL,
+	`description` text,
+	`chosen_option_id` text,
+	`rationale` text,
+	`decided_by` text,
+	`decided_at` integer,
+	`sort_order` integer NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL,
+	FOREIGN KEY (`area_id`) REFERENCES `areas`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `decision_options_decision_idx` ON `decision_options` (`decision_id`);--> statement-breakpoint
+CREATE INDEX `decisions_area_idx` ON `decisions` (`area_id`);
\ No newline at end of file
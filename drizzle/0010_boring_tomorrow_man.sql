@@ -0,0 +1,59 @@
+CREATE TABLE `projects` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL
+);
+--> statement-breakpoint
+-- Everything that existed before projects belongs to the default project
+INSERT INTO `projects` (`id`, `name`) VALUES ('default', 'Default Project');
+--> statement-breakpoint
+-- SQLite can't add a REFERENCES column to a populated table, so rebuild both.
+-- categories and decisions point at areas by name; defer their FK checks until
+-- the rebuilt table has taken the old name.
+PRAGMA defer_foreign_keys = ON;
+--> statement-breakpoint
+CREATE TABLE `__new_areas` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`title` text NOT NULL,
+	`icon` text NOT NULL,
+	`sort_order` integer NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_areas` (`id`, `project_id`, `title`, `icon`, `sort_order`)
+	SELECT `id`, 'default', `title`, `icon`, `sort_order` FROM `areas`;
+--> statement-breakpoint
+DROP TABLE `areas`;
+--> statement-breakpoint
+ALTER TABLE `__new_areas` RENAME TO `areas`;
+--> statement-breakpoint
+CREATE TABLE `__new_budget_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`name` text NOT NULL,
+	`category` text NOT NULL,
+	`status` text NOT NULL,
+	`cost` real NOT NULL,
+	`variance` real DEFAULT 0,
+	`created_at` integer,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_budget_items` (`id`, `project_id`, `name`, `category`, `status`, `cost`, `variance`, `created_at`)
+	SELECT `id`, 'default', `name`, `category`, `status`, `cost`, `variance`, `created_at` FROM `budget_items`;
+--> statement-breakpoint
+DROP TABLE `budget_items`;
+--> statement-breakpoint
+ALTER TABLE `__new_budget_items` RENAME TO `budget_items`;
+--> statement-breakpoint
+PRAGMA defer_foreign_keys = OFF;
+--> statement-breakpoint
+CREATE INDEX `areas_project_idx` ON `areas` (`project_id`);
+--> statement-breakpoint
+CREATE INDEX `budget_items_project_idx` ON `budget_items` (`project_id`);
+--> statement-breakpoint
+-- R2-backed attachment URLs now live under the project routes
+UPDATE `attachments` SET `url` = '/api/projects/default' || `url` WHERE `url` LIKE '/api/attachments/%';
+--> statement-breakpoint
+UPDATE `attachments` SET `thumbnail_url` = '/api/projects/default' || `thumbnail_url` WHERE `thumbnail_url` LIKE '/api/attachments/%';
@@ -0,0 +1,17 @@
+CREATE TABLE `share_links` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`label` text NOT NULL,
+	`area_ids` text,
+	`category_ids` text,
+	`trades` text,
+	`show_prices` integer DEFAULT false NOT NULL,
+	`created_by` text,
+	`expires_at` integer NOT NULL,
+	`revoked_at` integer,
+	`created_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `share_links_project_idx` ON `share_links` (`project_id`);
\ No newline at end of file
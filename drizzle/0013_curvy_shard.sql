@@ -0,0 +1,65 @@
+CREATE TABLE `entity_changes` (
+	`seq` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` text NOT NULL,
+	`entity` text NOT NULL,
+	`entity_id` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `entity_changes_entity_idx` ON `entity_changes` (`entity`,`entity_id`);--> statement-breakpoint
+CREATE INDEX `entity_changes_project_idx` ON `entity_changes` (`project_id`,`seq`);--> statement-breakpoint
+-- Change feed for offline sync (GET /sync?since=). Every write to an area,
+-- category or item moves that entity to the end of the feed. Deletes are
+-- recorded too; the row outlives the entity so clients can drop it.
+CREATE TRIGGER `areas_changes_insert` AFTER INSERT ON `areas` BEGIN
+	INSERT OR REPLACE INTO `entity_changes` (`project_id`, `entity`, `entity_id`) VALUES (new.`project_id`, 'area', new.`id`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `areas_changes_update` AFTER UPDATE ON `areas` BEGIN
+	INSERT OR REPLACE INTO `entity_changes` (`project_id`, `entity`, `entity_id`) VALUES (new.`project_id`, 'area', new.`id`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `areas_changes_delete` AFTER DELETE ON `areas` BEGIN
+	INSERT OR REPLACE INTO `entity_changes` (`project_id`, `entity`, `entity_id`) VALUES (old.`project_id`, 'area', old.`id`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `categories_changes_insert` AFTER INSERT ON `categories` BEGIN
+	INSERT OR REPLACE INTO `entity_changes` (`project_id`, `entity`, `entity_id`)
+		SELECT `project_id`, 'category', new.`id` FROM `areas` WHERE `id` = new.`area_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `categories_changes_update` AFTER UPDATE ON `categories` BEGIN
+	INSERT OR REPLACE INTO `entity_changes` (`project_id`, `entity`, `entity_id`)
+		SELECT `project_id`, 'category', new.`id` FROM `areas` WHERE `id` = new.`area_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `categories_changes_delete` AFTER DELETE ON `categories` BEGIN
+	INSERT OR REPLACE INTO `entity_changes` (`project_id`, `entity`, `entity_id`)
+		SELECT `project_id`, 'category', old.`id` FROM `areas` WHERE `id` = old.`area_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_changes_insert` AFTER INSERT ON `items` BEGIN
+	INSERT OR REPLACE INTO `entity_changes` (`project_id`, `entity`, `entity_id`)
+		SELECT `areas`.`project_id`, 'item', new.`id` FROM `categories`
+		INNER JOIN `areas` ON `areas`.`id` = `categories`.`area_id` WHERE `categories`.`id` = new.`category_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_changes_update` AFTER UPDATE ON `items` BEGIN
+	INSERT OR REPLACE INTO `entity_changes` (`project_id`, `entity`, `entity_id`)
+		SELECT `areas`.`project_id`, 'item', new.`id` FROM `categories`
+		INNER JOIN `areas` ON `areas`.`id` = `categories`.`area_id` WHERE `categories`.`id` = new.`category_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_changes_delete` AFTER DELETE ON `items` BEGIN
+	INSERT OR REPLACE INTO `entity_changes` (`project_id`, `entity`, `entity_id`)
+		SELECT `areas`.`project_id`, 'item', old.`id` FROM `categories`
+		INNER JOIN `areas` ON `areas`.`id` = `categories`.`area_id` WHERE `categories`.`id` = old.`category_id`;
+END;
+--> statement-breakpoint
+INSERT INTO `entity_changes` (`project_id`, `entity`, `entity_id`) SELECT `project_id`, 'area', `id` FROM `areas`;
+--> statement-breakpoint
+INSERT INTO `entity_changes` (`project_id`, `entity`, `entity_id`)
+	SELECT `areas`.`project_id`, 'category', `categories`.`id` FROM `categories` INNER JOIN `areas` ON `areas`.`id` = `categories`.`area_id`;
+--> statement-breakpoint
+INSERT INTO `entity_changes` (`project_id`, `entity`, `entity_id`)
+	SELECT `areas`.`project_id`, 'item', `items`.`id` FROM `items`
+	INNER JOIN `categories` ON `categories`.`id` = `items`.`category_id` INNER JOIN `areas` ON `areas`.`id` = `categories`.`area_id`;
@@ -0,0 +1,6 @@
+CREATE TABLE `budgets` (
+	`project_id` text PRIMARY KEY NOT NULL,
+	`total` real NOT NULL,
+	`updated_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `budget_allocations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`scope` text NOT NULL,
+	`scope_key` text NOT NULL,
+	`amount` real NOT NULL,
+	`note` text,
+	`updated_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE budget_items ADD `area_id` text REFERENCES areas(id) ON DELETE set null;--> statement-breakpoint
+CREATE UNIQUE INDEX `budget_allocations_scope_idx` ON `budget_allocations` (`project_id`,`scope`,`scope_key`);
@@ -0,0 +1,4 @@
+ALTER TABLE budget_items ADD `item_id` text REFERENCES items(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE budget_items ADD `decision_option_id` text REFERENCES decision_options(id) ON DELETE set null;--> statement-breakpoint
+CREATE UNIQUE INDEX `budget_items_item_idx` ON `budget_items` (`item_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `budget_items_decision_option_idx` ON `budget_items` (`decision_option_id`);
@@ -0,0 +1,25 @@
+CREATE TABLE `budget_status_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`budget_item_id` text NOT NULL,
+	`from_status` text,
+	`to_status` text NOT NULL,
+	`actor` text,
+	`created_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL,
+	FOREIGN KEY (`budget_item_id`) REFERENCES `budget_items`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `budget_status_events_budget_item_idx` ON `budget_status_events` (`budget_item_id`);--> statement-breakpoint
+-- budget_items.status was only checked in TypeScript; reject anything else here
+CREATE TRIGGER `budget_items_status_insert` BEFORE INSERT ON `budget_items`
+WHEN new.`status` NOT IN ('Estimating', 'Decision Needed', 'Pending', 'Ordered', 'Delivered', 'Installed', 'Cancelled') BEGIN
+	SELECT RAISE(ABORT, 'invalid budget item status');
+END;
+--> statement-breakpoint
+CREATE TRIGGER `budget_items_status_update` BEFORE UPDATE OF `status` ON `budget_items`
+WHEN new.`status` NOT IN ('Estimating', 'Decision Needed', 'Pending', 'Ordered', 'Delivered', 'Installed', 'Cancelled') BEGIN
+	SELECT RAISE(ABORT, 'invalid budget item status');
+END;
+--> statement-breakpoint
+-- Existing lines start their timeline at the status they have now
+INSERT INTO `budget_status_events` (`budget_item_id`, `from_status`, `to_status`, `actor`, `created_at`)
+	SELECT `id`, NULL, `status`, NULL, coalesce(`created_at`, strftime('%s', 'now')) FROM `budget_items`;
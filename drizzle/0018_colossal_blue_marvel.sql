@@ -0,0 +1,17 @@
+CREATE TABLE `quotes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`budget_item_id` text NOT NULL,
+	`vendor` text NOT NULL,
+	`amount` real NOT NULL,
+	`valid_until` text,
+	`includes` text NOT NULL,
+	`excludes` text NOT NULL,
+	`attachment_url` text,
+	`note` text,
+	`accepted_by` text,
+	`accepted_at` integer,
+	`created_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL,
+	FOREIGN KEY (`budget_item_id`) REFERENCES `budget_items`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `quotes_budget_item_idx` ON `quotes` (`budget_item_id`);
\ No newline at end of file
@@ -0,0 +1,11 @@
+ALTER TABLE item_events ADD `project_id` text;--> statement-breakpoint
+CREATE INDEX `item_events_project_idx` ON `item_events` (`project_id`,`id`);--> statement-breakpoint
+-- Existing events get their project through whatever they still point at. Left
+-- over are events whose area is gone and area reorders; with a single project
+-- those can only belong to it.
+UPDATE `item_events` SET `project_id` = coalesce(
+	(SELECT `project_id` FROM `areas` WHERE `areas`.`id` = `item_events`.`area_id`),
+	(SELECT `areas`.`project_id` FROM `categories` JOIN `areas` ON `areas`.`id` = `categories`.`area_id` WHERE `categories`.`id` = `item_events`.`category_id`),
+	(SELECT `areas`.`project_id` FROM `items` JOIN `categories` ON `categories`.`id` = `items`.`category_id` JOIN `areas` ON `areas`.`id` = `categories`.`area_id` WHERE `items`.`id` = `item_events`.`item_id`),
+	(SELECT `id` FROM `projects` WHERE (SELECT count(*) FROM `projects`) = 1)
+);
@@ -0,0 +1,4 @@
+-- Existing linked lines can't be told apart from ones entered by hand, so they
+-- all start as manual: the sync stops following them rather than risk deleting
+-- someone's entry, and the reconciliation report shows where they drift.
+ALTER TABLE budget_items ADD `origin` text DEFAULT 'manual' NOT NULL;
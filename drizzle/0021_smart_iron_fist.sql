@@ -0,0 +1,8 @@
+ALTER TABLE areas ADD `key` text DEFAULT '' NOT NULL;--> statement-breakpoint
+-- Until now the id was the key
+UPDATE `areas` SET `key` = `id`;--> statement-breakpoint
+ALTER TABLE items ADD `catalog_id` text;--> statement-breakpoint
+-- Items created in the app have UUIDs; the rest came from the seed or a catalog
+-- import under their catalog id
+UPDATE `items` SET `catalog_id` = `id` WHERE `id` NOT LIKE '________-____-____-____-____________';--> statement-breakpoint
+CREATE UNIQUE INDEX `areas_project_key_idx` ON `areas` (`project_id`,`key`);
@@ -0,0 +1,4 @@
+ALTER TABLE templates ADD `project_id` text REFERENCES projects(id) ON DELETE cascade;--> statement-breakpoint
+-- Templates saved so far can only have come from the one project, if there is
+-- just one; otherwise they stay unowned and hidden
+UPDATE `templates` SET `project_id` = (SELECT `id` FROM `projects` WHERE (SELECT count(*) FROM `projects`) = 1);
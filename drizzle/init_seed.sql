@@ -7,15 +7,15 @@ DELETE FROM categories;
 DELETE FROM areas;
 
 -- 1. Insert Areas
-INSERT INTO areas (id, title, icon, sort_order) VALUES 
-('floor1_general', '1st Floor General', 'LayoutDashboard', 1),
-('kitchen_living', 'Kitchen & Living', 'ChefHat', 2),
-('exterior', 'Exterior & Patio', 'Flower', 3),
-('floor2_general', '2nd Floor & Stairs', 'ArrowUpCircle', 4),
-('family_library', 'Family & Library', 'BookOpen', 5),
-('laundry_new', 'New Laundry Room', 'RotateCcw', 6),
-('guest_suite', 'Guest Bed & Bath', 'Sofa', 7),
-('primary_suite', 'Primary Suite', 'Bath', 8);
+INSERT INTO areas (id, project_id, key, title, icon, sort_order) VALUES 
+('floor1_general', 'default', 'floor1_general', '1st Floor General', 'LayoutDashboard', 1),
+('kitchen_living', 'default', 'kitchen_living', 'Kitchen & Living', 'ChefHat', 2),
+('exterior', 'default', 'exterior', 'Exterior & Patio', 'Flower', 3),
+('floor2_general', 'default', 'floor2_general', '2nd Floor & Stairs', 'ArrowUpCircle', 4),
+('family_library', 'default', 'family_library', 'Family & Library', 'BookOpen', 5),
+('laundry_new', 'default', 'laundry_new', 'New Laundry Room', 'RotateCcw', 6),
+('guest_suite', 'default', 'guest_suite', 'Guest Bed & Bath', 'Sofa', 7),
+('primary_suite', 'default', 'primary_suite', 'Primary Suite', 'Bath', 8);
 
 -- 2. Insert Categories (Using explicit IDs to map items later)
 -- floor1_general categories (IDs 1-3)
@@ -24,7 +24,7 @@ interface DashboardProps {
 }
 
 export function Dashboard({ items, summary }: DashboardProps) {
-  const percentage = Math.round((summary.spent / summary.total) * 100)
+  const percentage = summary.total > 0 ? Math.round((summary.spent / summary.total) * 100) : 0
 
   const data = [
     { name: "Budget", value: summary.total },
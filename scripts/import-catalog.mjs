@@ -0,0 +1,55 @@
+// Send a decision catalog to POST /api/projects/{projectId}/import.
+//
+//   pnpm run db:import todo_schema.json --dry-run
+//   pnpm run db:import todo_schema_2.json --project bungalow --url https://remodel.example.workers.dev
+//
+// API_TOKEN must hold a session token of an owner or editor of the project.
+//
+// todo_schema.json was copied out of a React component and still carries JSX
+// icons (`"icon": <Droplets className="w-5 h-5" />`); those are rewritten to
+// their component name ("Droplets") so the file parses as JSON.
+import { readFile } from "node:fs/promises";
+
+let file;
+let dryRun = false;
+let project = "default";
+let baseUrl = process.env.API_URL ?? "http://localhost:8787";
+
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === "--dry-run") dryRun = true;
+  else if (args[i] === "--url") baseUrl = args[++i];
+  else if (args[i] === "--project") project = args[++i];
+  else file = args[i];
+}
+
+if (!file || !process.env.API_TOKEN) {
+  console.error("Usage: API_TOKEN=<token> import-catalog.mjs <catalog.json> [--dry-run] [--project <id>] [--url <api base url>]");
+  process.exit(1);
+}
+
+const source = await readFile(file, "utf8");
+const catalog = JSON.parse(source.replace(/<([A-Za-z][\w.]*)[^>]*\/>/g, '"$1"'));
+
+const response = await fetch(`${baseUrl}/api/projects/${project}/import${dryRun ? "?dryRun=true" : ""}`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json", Authorization: `Bearer ${process.env.API_TOKEN}` },
+  body: JSON.stringify(catalog),
+});
+
+const result = await response.json();
+if (!response.ok) {
+  console.error(`Import failed (${response.status}):`, JSON.stringify(result, null, 2));
+  process.exit(1);
+}
+
+console.log(`${dryRun ? "Would import" : "Imported"} ${file} into ${project} (${result.format} format)`);
+console.log(`  created: ${JSON.stringify(result.created)}`);
+console.log(`  updated: ${JSON.stringify(result.updated)}`);
+console.log(`  unchanged: ${result.unchanged}`);
+for (const change of result.changes) {
+  const fields = Object.entries(change.fields)
+    .map(([field, { from, to }]) => `${field}: ${JSON.stringify(from)} -> ${JSON.stringify(to)}`)
+    .join(", ");
+  console.log(`  ${change.action} ${change.entity} ${change.key}${fields ? ` (${fields})` : ""}`);
+}
@@ -0,0 +1,111 @@
+import { Agent, type AgentContext, type Connection, type WSMessage } from "agents";
+import type { SyncChange } from "../services/sync";
+import { SyncSubscribeSchema } from "../zod";
+
+interface Subscription {
+  areaIds: string[] | null;
+}
+
+// Changes kept for reconnecting clients; anyone further behind reloads instead
+const CHANGE_LOG_SIZE = 1000;
+
+/**
+ * Live checklist updates for one project, at /agents/checklist-sync/<projectId>.
+ *
+ * Routes publish item and category changes after they commit; each gets the
+ * next sequence number and goes to connections subscribed to its area.
+ * Clients send `{ type: "subscribe", areaIds?, since? }` after (re)connecting
+ * and receive, in order:
+ *   - `{ type: "change", seq, entity, op, areaId, id, data? }` for every
+ *     logged change after `since`, then live ones as they happen;
+ *   - `{ type: "resync", seq }` instead when `since` is too old or the
+ *     checklist changed in bulk: reload it over REST and carry on from `seq`;
+ *   - `{ type: "subscribed", seq }` once caught up.
+ */
+export class ChecklistSync extends Agent<Env> {
+  constructor(ctx: AgentContext, env: Env) {
+    super(ctx, env);
+    // area_id is null for resync markers
+    this.sql`CREATE TABLE IF NOT EXISTS sync_changes (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      area_id TEXT,
+      change TEXT NOT NULL
+    )`;
+  }
+
+  private latestSeq() {
+    return this.sql<{ seq: number | null }>`SELECT MAX(seq) AS seq FROM sync_changes`[0]?.seq ?? 0;
+  }
+
+  private append(areaId: string | null, change: string) {
+    const [{ seq }] = this.sql<{ seq: number }>`INSERT INTO sync_changes (area_id, change) VALUES (${areaId}, ${change}) RETURNING seq`;
+    this.sql`DELETE FROM sync_changes WHERE seq <= ${seq - CHANGE_LOG_SIZE}`;
+    return seq;
+  }
+
+  private *subscribers(areaId: string | null) {
+    for (const connection of this.getConnections<Subscription>()) {
+      const subscription = connection.state;
+      if (!subscription) continue;
+      if (areaId === null || !subscription.areaIds || subscription.areaIds.includes(areaId)) yield connection;
+    }
+  }
+
+  /** Called by the routes (services/sync.ts) after a mutation commits. */
+  async publish(changes: SyncChange[]) {
+    for (const change of changes) {
+      const seq = this.append(change.areaId, JSON.stringify(change));
+      const message = JSON.stringify({ type: "change", seq, ...change });
+      for (const connection of this.subscribers(change.areaId)) connection.send(message);
+    }
+    return this.latestSeq();
+  }
+
+  /** Called by the routes after bulk changes; every subscriber reloads. */
+  async resync() {
+    const seq = this.append(null, JSON.stringify({ type: "resync" }));
+    const message = JSON.stringify({ type: "resync", seq });
+    for (const connection of this.subscribers(null)) connection.send(message);
+    return seq;
+  }
+
+  async onMessage(connection: Connection<Subscription>, message: WSMessage) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(typeof message === "string" ? message : new TextDecoder().decode(message));
+    } catch {
+      parsed = null;
+    }
+
+    const result = SyncSubscribeSchema.safeParse(parsed);
+    if (!result.success) {
+      connection.send(JSON.stringify({ type: "error", message: "Expected { type: \"subscribe\", areaIds?, since? }" }));
+      return;
+    }
+
+    const { areaIds, since } = result.data;
+    connection.setState({ areaIds });
+
+    const latest = this.latestSeq();
+    if (since !== undefined && since < latest) {
+      const missed = this.sql<{ seq: number; area_id: string | null; change: string }>`
+        SELECT seq, area_id, change FROM sync_changes WHERE seq > ${since} ORDER BY seq`;
+
+      // A gap means changes were pruned since the client last heard from us
+      const complete = missed[0]?.seq === since + 1;
+      if (!complete || missed.some((row) => row.area_id === null)) {
+        connection.send(JSON.stringify({ type: "resync", seq: latest }));
+      } else {
+        for (const row of missed) {
+          if (areaIds && !areaIds.includes(row.area_id!)) continue;
+          connection.send(JSON.stringify({ type: "change", seq: row.seq, ...JSON.parse(row.change) }));
+        }
+      }
+    } else if (since !== undefined && since > latest) {
+      // The client's cursor is from a log we no longer have
+      connection.send(JSON.stringify({ type: "resync", seq: latest }));
+    }
+
+    connection.send(JSON.stringify({ type: "subscribed", seq: latest }));
+  }
+}
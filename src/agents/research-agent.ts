@@ -12,7 +12,8 @@ export class ResearchAgent extends AIChatAgent<Env> {
         apiKey: this.env.OPENAI_API_KEY
     });
     
-    const tools = createResearchTools(this.env);
+    // Instances are addressed per project: /agents/research-agent/<projectId>
+    const tools = createResearchTools(this.env, this.name);
 
     const result = streamText({
       model: openai("gpt-4o"),
@@ -20,7 +21,7 @@ export class ResearchAgent extends AIChatAgent<Env> {
       tools, 
       maxSteps: 10,
       onFinish,
-      system: "You are a Research Agent. Help the user find prices and save them to the budget."
+      system: `You are a Research Agent. Help the user find prices and save them to the budget of project '${this.name}'.`
     } as any);
 
     return (result as any).toDataStreamResponse();
@@ -0,0 +1,12 @@
+/**
+ * Check that a client-supplied ordering is a permutation of the current
+ * members: same ids, no duplicates, nothing missing or foreign.
+ */
+export function matchesMembership<T extends string | number>(current: T[], requested: T[]): boolean {
+  if (current.length !== requested.length) return false;
+  const remaining = new Set(current);
+  for (const id of requested) {
+    if (!remaining.delete(id)) return false;
+  }
+  return remaining.size === 0;
+}
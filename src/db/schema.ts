@@ -1,31 +1,170 @@
-import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, index, uniqueIndex, primaryKey } from "drizzle-orm/sqlite-core";
 import { relations, sql } from "drizzle-orm";
 
+export const TRADES = [
+  "general", "demolition", "framing", "plumbing", "electrical", "hvac", "insulation",
+  "drywall", "flooring", "tile", "cabinetry", "painting", "roofing", "exterior", "landscaping",
+] as const;
+
+// One remodel. Areas (and through them everything on the checklist) and
+// budget lines belong to exactly one project.
+export const projects = sqliteTable("projects", {
+  id: text("id").primaryKey(), // e.g., 'default', 'duboce-flat'
+  name: text("name").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+});
+
 export const areas = sqliteTable("areas", {
-  id: text("id").primaryKey(), // e.g., 'floor1_general'
+  id: text("id").primaryKey(), // Opaque; the original house's areas keep their slugs, new ones get UUIDs
+  projectId: text("project_id").references(() => projects.id).notNull(),
+  key: text("key").notNull(), // e.g., 'floor1_general'; unique within the project, so every project can have a 'kitchen'
   title: text("title").notNull(),
   icon: text("icon").notNull(),
   sortOrder: integer("sort_order").notNull(),
-});
+}, (table) => ({
+  projectIdx: index("areas_project_idx").on(table.projectId),
+  keyIdx: uniqueIndex("areas_project_key_idx").on(table.projectId, table.key),
+}));
 
 export const categories = sqliteTable("categories", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   areaId: text("area_id").references(() => areas.id).notNull(),
   name: text("name").notNull(),
-  type: text("type"), // 'radio' | 'checkbox' from JSON
+  type: text("type", { enum: ["radio", "checkbox"] }), // from JSON
   sortOrder: integer("sort_order").notNull(),
 });
 
 export const items = sqliteTable("items", {
   id: text("id").primaryKey(), // e.g., 'f1_1', or UUID for new items
   categoryId: integer("category_id").references(() => categories.id).notNull(),
+  catalogId: text("catalog_id"), // Option id in the imported catalog; re-imports into the same project match on it
   label: text("label").notNull(),
   note: text("note"), // Mapped from 'desc' in JSON or 'note'
   price: integer("price"), // Added from JSON
   isChecked: integer("is_checked", { mode: "boolean" }).default(false).notNull(),
   sortOrder: integer("sort_order").notNull(),
+  deletedAt: integer("deleted_at", { mode: "timestamp" }), // Soft delete; null while live
+  version: integer("version").default(0).notNull(), // Bumped on every edit for optimistic concurrency
+  dueDate: text("due_date"), // ISO date (YYYY-MM-DD) the decision must be made by
+  assignee: text("assignee"), // Free text: "us", "GC", "electrician", ...
+  trade: text("trade", { enum: TRADES }),
+});
+
+// Site photos, tile samples, quote PDFs. Images go to Cloudflare Images when a
+// token is configured; everything else (and all files under `wrangler dev`) goes to R2.
+export const attachments = sqliteTable("attachments", {
+  id: text("id").primaryKey(),
+  itemId: text("item_id").references(() => items.id, { onDelete: "cascade" }).notNull(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  storage: text("storage", { enum: ["images", "r2"] }).notNull(),
+  url: text("url").notNull(),
+  thumbnailUrl: text("thumbnail_url"), // null for non-image files
+  caption: text("caption"),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  itemIdx: index("attachments_item_idx").on(table.itemId),
+}));
+
+// A choice between priced alternatives (e.g. 'kitchen-layout': preserve the
+// footprint at $0 vs open concept at $12,500). chosenOptionId points into
+// decision_options; the routes keep it consistent since the tables reference each other.
+export const decisions = sqliteTable("decisions", {
+  id: text("id").primaryKey(), // e.g., 'kitchen-layout'
+  areaId: text("area_id").references(() => areas.id).notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  chosenOptionId: text("chosen_option_id"),
+  rationale: text("rationale"), // Why the chosen option won
+  decidedBy: text("decided_by"),
+  decidedAt: integer("decided_at", { mode: "timestamp" }),
+  sortOrder: integer("sort_order").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  areaIdx: index("decisions_area_idx").on(table.areaId),
+}));
+
+export const decisionOptions = sqliteTable("decision_options", {
+  id: text("id").primaryKey(), // e.g., 'open_concept_island'
+  decisionId: text("decision_id").references(() => decisions.id, { onDelete: "cascade" }).notNull(),
+  label: text("label").notNull(),
+  description: text("description"), // 'desc' in the JSON catalogs
+  price: integer("price").default(0).notNull(),
+  sortOrder: integer("sort_order").notNull(),
+}, (table) => ({
+  decisionIdx: index("decision_options_decision_idx").on(table.decisionId),
+}));
+
+// Reusable checklist structure: areas, categories and default items, without
+// check state or notes. Built-in templates live in services/templates.ts; saved
+// ones belong to a project, and only its members see them.
+export interface TemplateArea {
+  key: string; // Area key, e.g. 'kitchen'
+  title: string;
+  icon: string;
+  categories: {
+    name: string;
+    type: "radio" | "checkbox" | null;
+    items: { label: string; price: number | null }[];
+  }[];
+}
+
+export const templates = sqliteTable("templates", {
+  id: text("id").primaryKey(), // e.g., 'bungalow-2025'
+  projectId: text("project_id").references(() => projects.id, { onDelete: "cascade" }), // null only for templates that predate projects
+  name: text("name").notNull(),
+  description: text("description"),
+  areas: text("areas", { mode: "json" }).$type<TemplateArea[]>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
 });
 
+// "itemId cannot be decided before dependsOnId". Edges go away with either item.
+export const itemDependencies = sqliteTable("item_dependencies", {
+  itemId: text("item_id").references(() => items.id, { onDelete: "cascade" }).notNull(),
+  dependsOnId: text("depends_on_id").references(() => items.id, { onDelete: "cascade" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.itemId, table.dependsOnId] }),
+  itemIdx: index("item_dependencies_item_idx").on(table.itemId),
+}));
+
+// Append-only audit trail of checklist mutations. Rows outlive the items they
+// describe, so there are no foreign keys; areaId is denormalised for filtering.
+export const itemEvents = sqliteTable("item_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  // Kept on the event so history outlives the area, and covers project-level events
+  projectId: text("project_id"),
+  itemId: text("item_id"), // null for category/area-level events
+  categoryId: integer("category_id"),
+  areaId: text("area_id"),
+  action: text("action", { enum: ["create", "update", "delete", "restore", "purge", "reorder"] }).notNull(),
+  field: text("field"),
+  oldValue: text("old_value"), // JSON-encoded
+  newValue: text("new_value"), // JSON-encoded
+  actor: text("actor"),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  itemIdx: index("item_events_item_idx").on(table.itemId),
+  areaIdx: index("item_events_area_idx").on(table.areaId),
+  projectIdx: index("item_events_project_idx").on(table.projectId, table.id),
+}));
+
+// Latest change per area, category and item for offline sync, written by
+// SQLite triggers (migration 0013) so every write path is covered. Each write
+// replaces the entity's row, giving it a fresh seq; rows outlive the entity,
+// and a changed entity that no longer exists reads as deleted.
+export const entityChanges = sqliteTable("entity_changes", {
+  seq: integer("seq").primaryKey({ autoIncrement: true }),
+  projectId: text("project_id").notNull(),
+  entity: text("entity", { enum: ["area", "category", "item"] }).notNull(),
+  entityId: text("entity_id").notNull(), // category ids as text
+}, (table) => ({
+  entityIdx: uniqueIndex("entity_changes_entity_idx").on(table.entity, table.entityId),
+  projectIdx: index("entity_changes_project_idx").on(table.projectId, table.seq),
+}));
+
 export const systemLogs = sqliteTable("system_logs", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   level: text("level").notNull(),
@@ -35,19 +174,162 @@ export const systemLogs = sqliteTable("system_logs", {
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
 });
 
+// In workflow order; services/budget-status.ts has the moves allowed between them
+export const BUDGET_STATUSES = ["Estimating", "Decision Needed", "Pending", "Ordered", "Delivered", "Installed", "Cancelled"] as const;
+
+// Who owns a line: "selection" lines were created by services/budget-links.ts
+// and follow their item or option; "manual" ones were entered or edited by hand
+export const BUDGET_ORIGINS = ["manual", "selection"] as const;
+
 export const budgetItems = sqliteTable("budget_items", {
   id: text("id").primaryKey(), 
+  projectId: text("project_id").references(() => projects.id).notNull(),
   name: text("name").notNull(),
   category: text("category").notNull(),
-  status: text("status").notNull(), // "Ordered", "Pending", "Decision Needed", "Estimating"
+  areaId: text("area_id").references(() => areas.id, { onDelete: "set null" }), // counts toward that area's envelope
+  // The selection this line prices; services/budget-links.ts keeps the lines it created in step
+  itemId: text("item_id").references(() => items.id, { onDelete: "set null" }),
+  decisionOptionId: text("decision_option_id").references(() => decisionOptions.id, { onDelete: "set null" }),
+  origin: text("origin", { enum: BUDGET_ORIGINS }).default("manual").notNull(),
+  status: text("status", { enum: BUDGET_STATUSES }).notNull(),
   cost: real("cost").notNull(),
   variance: real("variance").default(0),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  projectIdx: index("budget_items_project_idx").on(table.projectId),
+  itemIdx: uniqueIndex("budget_items_item_idx").on(table.itemId),
+  decisionOptionIdx: uniqueIndex("budget_items_decision_option_idx").on(table.decisionOptionId),
+}));
+
+// Each status a budget line has been moved to, and by whom
+export const budgetStatusEvents = sqliteTable("budget_status_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  budgetItemId: text("budget_item_id").references(() => budgetItems.id, { onDelete: "cascade" }).notNull(),
+  fromStatus: text("from_status", { enum: BUDGET_STATUSES }), // null when the line was created
+  toStatus: text("to_status", { enum: BUDGET_STATUSES }).notNull(),
+  actor: text("actor"),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  budgetItemIdx: index("budget_status_events_budget_item_idx").on(table.budgetItemId),
+}));
+
+// Vendor and contractor bids for a budget line. Accepting one sets the line's
+// cost; includes/excludes are scope items ("demo", "haul-away") compared
+// across a line's quotes for completeness.
+export const quotes = sqliteTable("quotes", {
+  id: text("id").primaryKey(),
+  budgetItemId: text("budget_item_id").references(() => budgetItems.id, { onDelete: "cascade" }).notNull(),
+  vendor: text("vendor").notNull(),
+  amount: real("amount").notNull(),
+  validUntil: text("valid_until"), // ISO date (YYYY-MM-DD)
+  includes: text("includes", { mode: "json" }).$type<string[]>().notNull(),
+  excludes: text("excludes", { mode: "json" }).$type<string[]>().notNull(),
+  attachmentUrl: text("attachment_url"), // e.g. an uploaded attachment's file URL
+  note: text("note"),
+  acceptedBy: text("accepted_by"),
+  acceptedAt: integer("accepted_at", { mode: "timestamp" }), // at most one per line
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  budgetItemIdx: index("quotes_budget_item_idx").on(table.budgetItemId),
+}));
+
+// The overall amount a project's budget lines are measured against; no row means not set yet
+export const budgets = sqliteTable("budgets", {
+  projectId: text("project_id").primaryKey().references(() => projects.id, { onDelete: "cascade" }),
+  total: real("total").notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
 });
 
-// Define relations (Areas -> Categories -> Items)
-export const areasRelations = relations(areas, ({ many }) => ({
+// Envelopes the total is split into. Category envelopes match budget lines by
+// their free-text category ("Flooring", "Contingency"), area envelopes by
+// areaId. The two are separate views of the same money and overlap.
+export const budgetAllocations = sqliteTable("budget_allocations", {
+  id: text("id").primaryKey(),
+  projectId: text("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  scope: text("scope", { enum: ["category", "area"] }).notNull(),
+  scopeKey: text("scope_key").notNull(), // Category name or area id
+  amount: real("amount").notNull(),
+  note: text("note"),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  scopeIdx: uniqueIndex("budget_allocations_scope_idx").on(table.projectId, table.scope, table.scopeKey),
+}));
+
+export const ROLES = ["owner", "editor", "contractor", "viewer"] as const;
+
+// People only get an account by accepting an invite (or bootstrapping the first owner)
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+});
+
+// Bearer tokens, one per signed-in device. Only the SHA-256 hash is stored.
+export const sessions = sqliteTable("sessions", {
+  tokenHash: text("token_hash").primaryKey(),
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  label: text("label"), // e.g. "Kitchen iPad"
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  userIdx: index("sessions_user_idx").on(table.userId),
+}));
+
+export const projectMembers = sqliteTable("project_members", {
+  projectId: text("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  role: text("role", { enum: ROLES }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.projectId, table.userId] }),
+  userIdx: index("project_members_user_idx").on(table.userId),
+}));
+
+// Single-use invite links; like sessions, only the token hash is kept
+export const invites = sqliteTable("invites", {
+  id: text("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  projectId: text("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  role: text("role", { enum: ROLES }).notNull(),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  acceptedBy: text("accepted_by").references(() => users.id, { onDelete: "set null" }),
+  acceptedAt: integer("accepted_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  projectIdx: index("invites_project_idx").on(table.projectId),
+}));
+
+// Read-only views of part of a checklist for people without an account
+// (e.g. the tile setter gets the bathroom tile items). The token is an HMAC
+// of id and expiry, so nothing secret is stored; null filters mean "all".
+export const shareLinks = sqliteTable("share_links", {
+  id: text("id").primaryKey(),
+  projectId: text("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  label: text("label").notNull(), // e.g. "Tile setter – bathrooms"
+  areaIds: text("area_ids", { mode: "json" }).$type<string[]>(),
+  categoryIds: text("category_ids", { mode: "json" }).$type<number[]>(),
+  trades: text("trades", { mode: "json" }).$type<(typeof TRADES)[number][]>(),
+  showPrices: integer("show_prices", { mode: "boolean" }).default(false).notNull(),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(strftime('%s', 'now'))`).notNull(),
+}, (table) => ({
+  projectIdx: index("share_links_project_idx").on(table.projectId),
+}));
+
+// Define relations (Projects -> Areas -> Categories -> Items)
+export const projectsRelations = relations(projects, ({ many }) => ({
+  areas: many(areas),
+  budgetItems: many(budgetItems),
+}));
+
+export const areasRelations = relations(areas, ({ one, many }) => ({
+  project: one(projects, { fields: [areas.projectId], references: [projects.id] }),
   categories: many(categories),
+  decisions: many(decisions),
 }));
 
 export const categoriesRelations = relations(categories, ({ one, many }) => ({
@@ -55,6 +337,20 @@ export const categoriesRelations = relations(categories, ({ one, many }) => ({
   items: many(items),
 }));
 
-export const itemsRelations = relations(items, ({ one }) => ({
+export const itemsRelations = relations(items, ({ one, many }) => ({
   category: one(categories, { fields: [items.categoryId], references: [categories.id] }),
+  attachments: many(attachments),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  item: one(items, { fields: [attachments.itemId], references: [items.id] }),
+}));
+
+export const decisionsRelations = relations(decisions, ({ one, many }) => ({
+  area: one(areas, { fields: [decisions.areaId], references: [areas.id] }),
+  options: many(decisionOptions),
+}));
+
+export const decisionOptionsRelations = relations(decisionOptions, ({ one }) => ({
+  decision: one(decisions, { fields: [decisionOptions.decisionId], references: [decisions.id] }),
 }));
@@ -7,39 +7,93 @@ import { cors } from 'hono/cors'
 import checklistApp from './routes/checklist'
 import itemsApp from './routes/items'
 import categoriesApp from './routes/categories'
+import areasApp from './routes/areas'
+import activityApp from './routes/activity'
+import searchApp from './routes/search'
+import dependenciesApp from './routes/dependencies'
+import attachmentsApp from './routes/attachments'
+import decisionsApp from './routes/decisions'
+import importApp from './routes/import'
+import templatesApp from './routes/templates'
+import syncApp from './routes/sync'
+import budgetApp from './routes/budget'
+import quotesApp from './routes/quotes'
+import projectsApp from './routes/projects'
+import authApp from './routes/auth'
+import sessionsApp from './routes/sessions'
+import membersApp from './routes/members'
+import shareLinksApp from './routes/share-links'
+import shareApp from './routes/share'
+import { requireAuth, requireProjectRole, authorizeAgentRequest } from './services/auth'
 
 // Import Agents
 import { OpenAIAgent } from "./agents/openai-agent";
 import { ResearchAgent } from "./agents/research-agent";
+import { ChecklistSync } from "./agents/checklist-sync";
 
 const app = new OpenAPIHono<{ Bindings: Env }>()
 
 app.use('/*', cors())
 
+// Public: invite links, first-owner bootstrap and share link pages. Mounted
+// before requireAuth, so their handlers answer without ever reaching it.
+app.route('/', authApp)
+app.route('/', shareApp)
+
+// Everything else under /api needs a session, and project routes a role in the project
+app.use('/api/*', requireAuth)
+app.use('/api/projects/:projectId', requireProjectRole)
+app.use('/api/projects/:projectId/*', requireProjectRole)
+
 // Mount sub-apps
+app.route('/', sessionsApp)
+app.route('/', projectsApp)
+app.route('/', membersApp)
+app.route('/', shareLinksApp)
 app.route('/', checklistApp)
 app.route('/', itemsApp)
 app.route('/', categoriesApp)
+app.route('/', areasApp)
+app.route('/', activityApp)
+app.route('/', searchApp)
+app.route('/', dependenciesApp)
+app.route('/', attachmentsApp)
+app.route('/', decisionsApp)
+app.route('/', importApp)
+app.route('/', templatesApp)
+app.route('/', syncApp)
+app.route('/', budgetApp)
+app.route('/', quotesApp)
 
 // --- Documentation ---
+app.openAPIRegistry.registerComponent('securitySchemes', 'bearerAuth', {
+  type: 'http',
+  scheme: 'bearer',
+  description: 'Session token from POST /api/invites/{token}/accept, /api/auth/bootstrap or /api/auth/sessions'
+})
+
 app.doc('/openapi.json', {
   openapi: '3.1.0',
   info: {
     version: '1.0.0',
     title: 'Renovation Checklist API',
   },
+  security: [{ bearerAuth: [] }],
 })
 
 app.get('/swagger', swaggerUI({ url: '/openapi.json' }))
 
 // Export Agents for Worker Runtime
-export { OpenAIAgent, ResearchAgent };
+export { OpenAIAgent, ResearchAgent, ChecklistSync };
 
 // Main Fetch Handler
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext) {
-    // Try to route to an Agent first
-    const agentResponse = await routeAgentRequest(request, env);
+    // Try to route to an Agent first; agents are named after the project they work on
+    const agentResponse = await routeAgentRequest(request, env, {
+      onBeforeConnect: (req, lobby) => authorizeAgentRequest(req, env, lobby.party, lobby.name),
+      onBeforeRequest: (req, lobby) => authorizeAgentRequest(req, env, lobby.party, lobby.name),
+    });
     if (agentResponse) return agentResponse;
 
     // Fallback to Hono App
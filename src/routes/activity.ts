@@ -0,0 +1,51 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { itemEvents } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, lt, desc } from 'drizzle-orm'
+import { serializeEvent } from '../services/history'
+import { ActivityQuerySchema, ActivityResponseSchema, ProjectIdParam } from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// Project-wide Activity Feed (newest first)
+const getActivityRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/activity',
+  operationId: 'getActivity',
+  request: {
+    params: ProjectIdParam,
+    query: ActivityQuerySchema
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ActivityResponseSchema } },
+      description: 'Page of checklist change events'
+    }
+  }
+})
+
+app.openapi(getActivityRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { areaId, limit, before } = c.req.valid('query')
+  const db = drizzle(c.env.DB, { schema })
+
+  const rows = await db.select()
+    .from(itemEvents)
+    .where(and(
+      eq(itemEvents.projectId, projectId),
+      areaId ? eq(itemEvents.areaId, areaId) : undefined,
+      before !== undefined ? lt(itemEvents.id, before) : undefined
+    ))
+    .orderBy(desc(itemEvents.id))
+    .limit(limit + 1)
+    .all()
+
+  // Fetch one extra row to know whether another page exists
+  const page = rows.slice(0, limit)
+  const nextCursor = rows.length > limit ? page[page.length - 1].id : null
+
+  return c.json({ events: page.map(serializeEvent), nextCursor }, 200)
+})
+
+export default app
@@ -0,0 +1,462 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { areas, categories, items, attachments, decisions, decisionOptions } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, asc, desc, inArray } from 'drizzle-orm'
+import { matchesMembership } from '../db/ordering'
+import { getActor, diffEvents, batchWithEvents, encodeValue } from '../services/history'
+import { removeStoredFiles } from '../services/attachments'
+import { followingLineDeletes } from '../services/budget-links'
+import { publishChanges, publishResync, categoryUpserts } from '../services/sync'
+import {
+  AreaSchema,
+  CategorySchema,
+  ErrorSchema,
+  ProjectIdParam,
+  AreaIdParam,
+  CreateAreaSchema,
+  UpdateAreaSchema,
+  CreateCategorySchema,
+  ReorderAreasSchema,
+  ReorderCategoriesSchema,
+  DeleteQuerySchema
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+const AreaRowSchema = AreaSchema.omit({ categories: true, progress: true })
+const CategoryRowSchema = CategorySchema.omit({ items: true, progress: true })
+
+// Create Area
+const createAreaRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/areas',
+  operationId: 'createArea',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateAreaSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: AreaRowSchema } },
+      description: 'Area created'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'The project already has an area with this key'
+    }
+  }
+})
+
+app.openapi(createAreaRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { key, title, icon, sortOrder } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  // Derive a slug key (e.g. 'garage_conversion') when the client doesn't supply one
+  const areaKey = key || title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+
+  const existing = await db.select({ id: areas.id })
+    .from(areas)
+    .where(and(eq(areas.projectId, projectId), eq(areas.key, areaKey)))
+    .get()
+
+  if (existing) {
+    return c.json({ message: `Area '${areaKey}' already exists` }, 409)
+  }
+
+  let nextSortOrder = sortOrder
+  if (nextSortOrder === undefined) {
+    const resultMax = await db.select({ sortOrder: areas.sortOrder })
+      .from(areas)
+      .where(eq(areas.projectId, projectId))
+      .orderBy(desc(areas.sortOrder))
+      .limit(1)
+      .get()
+    nextSortOrder = resultMax ? resultMax.sortOrder + 1 : 0
+  }
+
+  const result = { id: crypto.randomUUID(), projectId, key: areaKey, title, icon, sortOrder: nextSortOrder }
+
+  await batchWithEvents(db, projectId, [
+    db.insert(areas).values(result)
+  ], [{ areaId: result.id, actor: getActor(c), action: 'create', newValue: encodeValue(result) }])
+
+  // Live clients only track items and categories; area changes make them reload
+  publishResync(c, projectId)
+  return c.json(result, 201)
+})
+
+// Reorder Areas
+const reorderAreasRoute = createRoute({
+  method: 'put',
+  path: '/api/projects/{projectId}/areas/order',
+  operationId: 'reorderAreas',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: ReorderAreasSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(AreaRowSchema) } },
+      description: 'Areas reordered'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Ids do not match the current areas'
+    }
+  }
+})
+
+app.openapi(reorderAreasRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { ids } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const current = await db.select({ id: areas.id })
+    .from(areas)
+    .where(eq(areas.projectId, projectId))
+    .orderBy(asc(areas.sortOrder))
+    .all()
+
+  if (!matchesMembership(current.map((row) => row.id), ids)) {
+    return c.json({ message: 'Ids must list every area exactly once' }, 409)
+  }
+
+  await batchWithEvents(db, projectId, ids.map((id, index) =>
+    db.update(areas).set({ sortOrder: index }).where(eq(areas.id, id))
+  ), [{
+    actor: getActor(c),
+    action: 'reorder',
+    field: 'areas',
+    oldValue: encodeValue(current.map((row) => row.id)),
+    newValue: encodeValue(ids)
+  }])
+
+  const result = await db.select()
+    .from(areas)
+    .where(eq(areas.projectId, projectId))
+    .orderBy(asc(areas.sortOrder))
+    .all()
+
+  publishResync(c, projectId)
+  return c.json(result, 200)
+})
+
+// Update Area (rename, re-icon, reorder)
+const updateAreaRoute = createRoute({
+  method: 'patch',
+  path: '/api/projects/{projectId}/areas/{areaId}',
+  operationId: 'updateArea',
+  request: {
+    params: AreaIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateAreaSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: AreaRowSchema } },
+      description: 'Area updated'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Invalid input'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Area not found'
+    }
+  }
+})
+
+app.openapi(updateAreaRoute, async (c) => {
+  const { projectId, areaId } = c.req.valid('param')
+  const changes = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (Object.keys(changes).length === 0) {
+    return c.json({ message: 'No fields to update' }, 400)
+  }
+
+  const existing = await db.select()
+    .from(areas)
+    .where(and(eq(areas.id, areaId), eq(areas.projectId, projectId)))
+    .get()
+
+  if (!existing) return c.json({ message: 'Area not found' }, 404)
+
+  const events = diffEvents({ areaId, actor: getActor(c) }, existing, changes)
+
+  await batchWithEvents(db, projectId, [
+    db.update(areas).set(changes).where(eq(areas.id, areaId))
+  ], events)
+
+  publishResync(c, projectId)
+  return c.json({ ...existing, ...changes }, 200)
+})
+
+// Delete Area
+const deleteAreaRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/areas/{areaId}',
+  operationId: 'deleteArea',
+  request: {
+    params: AreaIdParam,
+    query: DeleteQuerySchema
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: AreaRowSchema.pick({ id: true }) } },
+      description: 'Area deleted'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Area not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Area still has categories or decisions and cascade was not requested'
+    }
+  }
+})
+
+app.openapi(deleteAreaRoute, async (c) => {
+  const { projectId, areaId } = c.req.valid('param')
+  const { cascade } = c.req.valid('query')
+  const db = drizzle(c.env.DB, { schema })
+
+  const area = await db.select()
+    .from(areas)
+    .where(and(eq(areas.id, areaId), eq(areas.projectId, projectId)))
+    .get()
+
+  if (!area) return c.json({ message: 'Area not found' }, 404)
+
+  const contained = await db.select()
+    .from(categories)
+    .where(eq(categories.areaId, areaId))
+    .all()
+
+  if (contained.length > 0 && !cascade) {
+    return c.json({ message: `Area has ${contained.length} categories; pass ?cascade=true to delete them` }, 409)
+  }
+
+  const containedDecisions = await db.select({ id: decisions.id })
+    .from(decisions)
+    .where(eq(decisions.areaId, areaId))
+    .all()
+
+  if (containedDecisions.length > 0 && !cascade) {
+    return c.json({ message: `Area has ${containedDecisions.length} decisions; pass ?cascade=true to delete them` }, 409)
+  }
+
+  const categoryIds = contained.map((row) => row.id)
+  const containedItems = categoryIds.length > 0
+    ? await db.select().from(items).where(inArray(items.categoryId, categoryIds)).all()
+    : []
+  const files = containedItems.length > 0
+    ? await db.select({ id: attachments.id, storage: attachments.storage })
+      .from(attachments)
+      .where(inArray(attachments.itemId, containedItems.map((item) => item.id)))
+      .all()
+    : []
+
+  const actor = getActor(c)
+
+  // D1 has no interactive transactions, so the cascade runs as one atomic batch
+  await batchWithEvents(db, projectId, [
+    ...(categoryIds.length > 0
+      ? [
+          followingLineDeletes(db, 'itemId', db.select({ id: items.id }).from(items).where(inArray(items.categoryId, categoryIds))),
+          db.delete(items).where(inArray(items.categoryId, categoryIds)),
+          db.delete(categories).where(eq(categories.areaId, areaId))
+        ]
+      : []),
+    // Options cascade with their decision
+    ...(containedDecisions.length > 0
+      ? [
+          followingLineDeletes(db, 'decisionOptionId', db.select({ id: decisionOptions.id })
+            .from(decisionOptions)
+            .where(inArray(decisionOptions.decisionId, containedDecisions.map((decision) => decision.id)))),
+          db.delete(decisions).where(eq(decisions.areaId, areaId))
+        ]
+      : []),
+    db.delete(areas).where(eq(areas.id, areaId))
+  ], [
+    ...containedItems.map((item) => ({
+      itemId: item.id, categoryId: item.categoryId, areaId, actor, action: 'delete' as const, oldValue: encodeValue(item)
+    })),
+    ...contained.map((category) => ({
+      categoryId: category.id, areaId, actor, action: 'delete' as const, oldValue: encodeValue(category)
+    })),
+    { areaId, actor, action: 'delete', oldValue: encodeValue(area) }
+  ])
+
+  await removeStoredFiles(c.env, files)
+
+  publishResync(c, projectId)
+  return c.json({ id: areaId }, 200)
+})
+
+// Create Category in Area
+const createCategoryRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/areas/{areaId}/categories',
+  operationId: 'createCategory',
+  request: {
+    params: AreaIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateCategorySchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: CategoryRowSchema } },
+      description: 'Category created'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Area not found'
+    }
+  }
+})
+
+app.openapi(createCategoryRoute, async (c) => {
+  const { projectId, areaId } = c.req.valid('param')
+  const { name, type, sortOrder } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const area = await db.select({ id: areas.id })
+    .from(areas)
+    .where(and(eq(areas.id, areaId), eq(areas.projectId, projectId)))
+    .get()
+
+  if (!area) return c.json({ message: 'Area not found' }, 404)
+
+  let nextSortOrder = sortOrder
+  if (nextSortOrder === undefined) {
+    const resultMax = await db.select({ sortOrder: categories.sortOrder })
+      .from(categories)
+      .where(eq(categories.areaId, areaId))
+      .orderBy(desc(categories.sortOrder))
+      .limit(1)
+      .get()
+    nextSortOrder = resultMax ? resultMax.sortOrder + 1 : 0
+  }
+
+  const result = await db.insert(categories).values({
+    areaId,
+    name,
+    type: type || 'checkbox',
+    sortOrder: nextSortOrder
+  }).returning().get()
+
+  // The id is autoincremented, so the event is written once the row exists
+  await batchWithEvents(db, projectId, [], [{
+    categoryId: result.id,
+    areaId,
+    actor: getActor(c),
+    action: 'create',
+    newValue: encodeValue(result)
+  }])
+
+  publishChanges(c, projectId, categoryUpserts([result]))
+  return c.json(result, 201)
+})
+
+// Reorder Categories in Area
+const reorderCategoriesRoute = createRoute({
+  method: 'put',
+  path: '/api/projects/{projectId}/areas/{areaId}/categories/order',
+  operationId: 'reorderCategories',
+  request: {
+    params: AreaIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: ReorderCategoriesSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(CategoryRowSchema) } },
+      description: 'Categories reordered'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Area not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Ids do not match the current categories in the area'
+    }
+  }
+})
+
+app.openapi(reorderCategoriesRoute, async (c) => {
+  const { projectId, areaId } = c.req.valid('param')
+  const { ids } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const area = await db.select({ id: areas.id })
+    .from(areas)
+    .where(and(eq(areas.id, areaId), eq(areas.projectId, projectId)))
+    .get()
+
+  if (!area) return c.json({ message: 'Area not found' }, 404)
+
+  const current = await db.select({ id: categories.id })
+    .from(categories)
+    .where(eq(categories.areaId, areaId))
+    .orderBy(asc(categories.sortOrder))
+    .all()
+
+  if (!matchesMembership(current.map((row) => row.id), ids)) {
+    return c.json({ message: 'Ids must list every category in the area exactly once' }, 409)
+  }
+
+  await batchWithEvents(db, projectId, ids.map((id, index) =>
+    db.update(categories).set({ sortOrder: index }).where(eq(categories.id, id))
+  ), [{
+    areaId,
+    actor: getActor(c),
+    action: 'reorder',
+    field: 'categories',
+    oldValue: encodeValue(current.map((row) => row.id)),
+    newValue: encodeValue(ids)
+  }])
+
+  const result = await db.select()
+    .from(categories)
+    .where(eq(categories.areaId, areaId))
+    .orderBy(asc(categories.sortOrder))
+    .all()
+
+  publishChanges(c, projectId, categoryUpserts(result))
+  return c.json(result, 200)
+})
+
+export default app
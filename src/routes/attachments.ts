@@ -0,0 +1,237 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { items, categories, attachments } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, asc, isNull } from 'drizzle-orm'
+import { getActor, batchWithEvents, encodeValue } from '../services/history'
+import { storeAttachment, readAttachment, removeStoredFiles } from '../services/attachments'
+import { categoryInProject, itemInProject } from '../services/projects'
+import {
+  AttachmentSchema,
+  ErrorSchema,
+  ItemIdParam,
+  AttachmentIdParam,
+  UploadAttachmentSchema
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024
+
+// The content type is whatever the uploader claimed, so only raster images and PDFs are shown in
+// the browser; anything else (HTML and SVG included) downloads instead of running on this origin
+const INLINE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'application/pdf'])
+
+// Upload Attachment to Item
+const uploadAttachmentRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/items/{id}/attachments',
+  operationId: 'uploadAttachment',
+  request: {
+    params: ItemIdParam,
+    body: {
+      content: {
+        'multipart/form-data': {
+          schema: UploadAttachmentSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: AttachmentSchema } },
+      description: 'Attachment stored'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Item not found'
+    },
+    413: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'File too large'
+    }
+  }
+})
+
+app.openapi(uploadAttachmentRoute, async (c) => {
+  const { projectId, id } = c.req.valid('param')
+  const { file, caption } = c.req.valid('form')
+  const db = drizzle(c.env.DB, { schema })
+
+  const item = await db.select({ categoryId: items.categoryId, areaId: categories.areaId })
+    .from(items)
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .where(and(eq(items.id, id), categoryInProject(db, projectId), isNull(items.deletedAt)))
+    .get()
+
+  if (!item) return c.json({ message: 'Item not found' }, 404)
+
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return c.json({ message: `Attachments are limited to ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` }, 413)
+  }
+
+  const attachmentId = crypto.randomUUID()
+  const stored = await storeAttachment(c.env, projectId, attachmentId, file)
+
+  const values = {
+    id: attachmentId,
+    itemId: id,
+    fileName: file.name,
+    contentType: file.type || 'application/octet-stream',
+    size: file.size,
+    caption: caption || null,
+    ...stored
+  }
+
+  await batchWithEvents(db, projectId, [
+    db.insert(attachments).values(values)
+  ], [{
+    itemId: id,
+    categoryId: item.categoryId,
+    areaId: item.areaId,
+    actor: getActor(c),
+    action: 'update',
+    field: 'attachments',
+    newValue: encodeValue({ id: attachmentId, fileName: values.fileName })
+  }])
+
+  const result = await db.select().from(attachments).where(eq(attachments.id, attachmentId)).get()
+  return c.json(result!, 201)
+})
+
+// List Item Attachments
+const listAttachmentsRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/items/{id}/attachments',
+  operationId: 'listAttachments',
+  request: {
+    params: ItemIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(AttachmentSchema) } },
+      description: 'Attachments for the item, oldest first'
+    }
+  }
+})
+
+app.openapi(listAttachmentsRoute, async (c) => {
+  const { projectId, id } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const result = await db.select({ attachment: attachments })
+    .from(attachments)
+    .innerJoin(items, eq(attachments.itemId, items.id))
+    .where(and(eq(attachments.itemId, id), itemInProject(db, projectId)))
+    .orderBy(asc(attachments.createdAt))
+    .all()
+
+  return c.json(result.map((row) => row.attachment), 200)
+})
+
+// Download Attachment (R2-backed files; Images-backed ones redirect to their delivery URL)
+const getAttachmentFileRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/attachments/{attachmentId}/file',
+  operationId: 'getAttachmentFile',
+  request: {
+    params: AttachmentIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/octet-stream': { schema: z.string().openapi({ format: 'binary' }) } },
+      description: 'File contents'
+    },
+    302: {
+      description: 'Redirect to Cloudflare Images delivery URL'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Attachment not found'
+    }
+  }
+})
+
+app.openapi(getAttachmentFileRoute, async (c) => {
+  const { projectId, attachmentId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const found = await db.select({ attachment: attachments })
+    .from(attachments)
+    .innerJoin(items, eq(attachments.itemId, items.id))
+    .where(and(eq(attachments.id, attachmentId), itemInProject(db, projectId)))
+    .get()
+  if (!found) return c.json({ message: 'Attachment not found' }, 404)
+
+  const { attachment } = found
+
+  if (attachment.storage === 'images') return c.redirect(attachment.url, 302)
+
+  const object = await readAttachment(c.env, attachmentId)
+  if (!object) return c.json({ message: 'Attachment file missing from storage' }, 404)
+
+  const disposition = INLINE_TYPES.has(attachment.contentType.split(';')[0].trim().toLowerCase()) ? 'inline' : 'attachment'
+
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': attachment.contentType,
+      'Content-Length': String(attachment.size),
+      'Content-Disposition': `${disposition}; filename="${attachment.fileName.replace(/"/g, '')}"`,
+      'X-Content-Type-Options': 'nosniff'
+    }
+  })
+})
+
+// Delete Attachment
+const deleteAttachmentRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/attachments/{attachmentId}',
+  operationId: 'deleteAttachment',
+  request: {
+    params: AttachmentIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: AttachmentSchema.pick({ id: true }) } },
+      description: 'Attachment deleted'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Attachment not found'
+    }
+  }
+})
+
+app.openapi(deleteAttachmentRoute, async (c) => {
+  const { projectId, attachmentId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const existing = await db.select({ attachment: attachments, categoryId: items.categoryId, areaId: categories.areaId })
+    .from(attachments)
+    .innerJoin(items, eq(attachments.itemId, items.id))
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .where(and(eq(attachments.id, attachmentId), categoryInProject(db, projectId)))
+    .get()
+
+  if (!existing) return c.json({ message: 'Attachment not found' }, 404)
+
+  const { attachment } = existing
+
+  await batchWithEvents(db, projectId, [
+    db.delete(attachments).where(eq(attachments.id, attachmentId))
+  ], [{
+    itemId: attachment.itemId,
+    categoryId: existing.categoryId,
+    areaId: existing.areaId,
+    actor: getActor(c),
+    action: 'update',
+    field: 'attachments',
+    oldValue: encodeValue({ id: attachment.id, fileName: attachment.fileName })
+  }])
+
+  await removeStoredFiles(c.env, [attachment])
+
+  return c.json({ id: attachmentId }, 200)
+})
+
+export default app
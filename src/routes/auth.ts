@@ -0,0 +1,200 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { drizzle, type DrizzleD1Database } from 'drizzle-orm/d1'
+import { users, projects, projectMembers, invites } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, isNull, gt } from 'drizzle-orm'
+import { createSession, resolveSession, readToken, hashToken, memberRole, setSessionCookie } from '../services/auth'
+import {
+  SessionSchema,
+  InvitePreviewSchema,
+  AcceptInviteResultSchema,
+  ErrorSchema,
+  BootstrapSchema,
+  AcceptInviteSchema,
+  InviteTokenParam
+} from '../zod'
+
+// Public routes: src/index.ts mounts this app ahead of requireAuth
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// Create the first owner (only while no users exist)
+const bootstrapRoute = createRoute({
+  method: 'post',
+  path: '/api/auth/bootstrap',
+  operationId: 'bootstrapOwner',
+  security: [],
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: BootstrapSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: SessionSchema } },
+      description: 'First user created as owner of every existing project'
+    },
+    403: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Secret missing or wrong'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Users already exist; ask an owner for an invite'
+    }
+  }
+})
+
+app.openapi(bootstrapRoute, async (c) => {
+  const { secret, name } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (!c.env.AUTH_BOOTSTRAP_SECRET || secret !== c.env.AUTH_BOOTSTRAP_SECRET) {
+    return c.json({ message: 'Invalid bootstrap secret' }, 403)
+  }
+
+  const existing = await db.select({ id: users.id }).from(users).limit(1).get()
+  if (existing) return c.json({ message: 'Already bootstrapped; ask an owner for an invite' }, 409)
+
+  const user = { id: crypto.randomUUID(), name }
+  const allProjects = await db.select({ id: projects.id }).from(projects).all()
+
+  await db.batch([
+    db.insert(users).values(user),
+    ...allProjects.map((project) => db.insert(projectMembers).values({ projectId: project.id, userId: user.id, role: 'owner' }))
+  ])
+
+  const session = await createSession(db, user.id, null)
+  setSessionCookie(c, session.token, session.expiresAt)
+  return c.json({ user, token: session.token, expiresAt: session.expiresAt.toISOString() }, 201)
+})
+
+// A pending invite with its project name; undefined when unknown, expired or already used
+const findPendingInvite = async (db: DrizzleD1Database<typeof schema>, token: string) =>
+  db.select({ invite: invites, projectName: projects.name })
+    .from(invites)
+    .innerJoin(projects, eq(invites.projectId, projects.id))
+    .where(and(eq(invites.tokenHash, await hashToken(token)), isNull(invites.acceptedAt), gt(invites.expiresAt, new Date())))
+    .get()
+
+// Preview Invite (what accepting it grants)
+const getInviteRoute = createRoute({
+  method: 'get',
+  path: '/api/invites/{token}',
+  operationId: 'getInvite',
+  security: [],
+  request: {
+    params: InviteTokenParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: InvitePreviewSchema } },
+      description: 'Project and role the invite grants'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Invite unknown, expired, revoked or already used'
+    }
+  }
+})
+
+app.openapi(getInviteRoute, async (c) => {
+  const { token } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const found = await findPendingInvite(db, token)
+  if (!found) return c.json({ message: 'Invite not found or no longer valid' }, 404)
+
+  const { invite, projectName } = found
+  return c.json({
+    projectId: invite.projectId,
+    projectName,
+    role: invite.role,
+    expiresAt: invite.expiresAt.toISOString()
+  }, 200)
+})
+
+// Accept Invite: joins the project as the signed-in user, or creates an account
+const acceptInviteRoute = createRoute({
+  method: 'post',
+  path: '/api/invites/{token}/accept',
+  operationId: 'acceptInvite',
+  security: [],
+  request: {
+    params: InviteTokenParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: AcceptInviteSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: AcceptInviteResultSchema } },
+      description: 'Membership added; includes a session token when a new account was created'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Name required to create an account'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Invite unknown, expired, revoked or already used'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Already a member of the project'
+    }
+  }
+})
+
+app.openapi(acceptInviteRoute, async (c) => {
+  const { token } = c.req.valid('param')
+  const { name } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const found = await findPendingInvite(db, token)
+  if (!found) return c.json({ message: 'Invite not found or no longer valid' }, 404)
+
+  const { invite } = found
+  const session = await resolveSession(db, readToken(c.req.raw))
+
+  if (session && await memberRole(db, invite.projectId, session.user.id)) {
+    return c.json({ message: 'Already a member of this project' }, 409)
+  }
+  if (!session && !name) return c.json({ message: 'Name is required to create an account' }, 400)
+
+  const user = session?.user ?? { id: crypto.randomUUID(), name: name! }
+
+  // Claim the invite first; the acceptedAt guard keeps two concurrent accepts from both succeeding
+  const claimed = await db.update(invites)
+    .set({ acceptedAt: new Date() })
+    .where(and(eq(invites.id, invite.id), isNull(invites.acceptedAt)))
+    .returning({ id: invites.id })
+  if (claimed.length === 0) return c.json({ message: 'Invite not found or no longer valid' }, 404)
+
+  const join = [
+    db.insert(projectMembers).values({ projectId: invite.projectId, userId: user.id, role: invite.role }),
+    db.update(invites).set({ acceptedBy: user.id }).where(eq(invites.id, invite.id))
+  ] as const
+  await (session ? db.batch(join) : db.batch([db.insert(users).values(user), ...join]))
+
+  if (session) return c.json({ user, projectId: invite.projectId, role: invite.role }, 200)
+
+  const created = await createSession(db, user.id, null)
+  setSessionCookie(c, created.token, created.expiresAt)
+  return c.json({
+    user,
+    projectId: invite.projectId,
+    role: invite.role,
+    token: created.token,
+    expiresAt: created.expiresAt.toISOString()
+  }, 200)
+})
+
+export default app
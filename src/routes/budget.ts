@@ -0,0 +1,467 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { budgetItems, budgets, budgetAllocations } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, asc } from 'drizzle-orm'
+import { areaExists } from '../services/projects'
+import { getBudgetItems, getBudgetSummary, serializeBudgetItem, serializeAllocation } from '../services/budget'
+import { reconcileBudget, checkLink } from '../services/budget-links'
+import { transitionProblem, initialStatusProblem, statusEvent, getBudgetTimeline } from '../services/budget-status'
+import { getActor } from '../services/history'
+import {
+  BudgetItemSchema,
+  BudgetSummarySchema,
+  BudgetAllocationSchema,
+  BudgetReconciliationSchema,
+  BudgetStatusEventSchema,
+  ErrorSchema,
+  CreateBudgetItemSchema,
+  UpdateBudgetItemSchema,
+  SetBudgetTotalSchema,
+  SetBudgetAllocationSchema,
+  BudgetItemsQuerySchema,
+  ProjectIdParam,
+  BudgetItemIdParam,
+  BudgetAllocationIdParam
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// List Budget Items
+const listBudgetItemsRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/budget/items',
+  operationId: 'listBudgetItems',
+  request: {
+    params: ProjectIdParam,
+    query: BudgetItemsQuerySchema
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(BudgetItemSchema) } },
+      description: 'Budget items grouped by category, oldest first within each'
+    }
+  }
+})
+
+app.openapi(listBudgetItemsRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  return c.json(await getBudgetItems(db, projectId, c.req.valid('query')), 200)
+})
+
+// Create Budget Item
+const createBudgetItemRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/budget/items',
+  operationId: 'createBudgetItem',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateBudgetItemSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: BudgetItemSchema } },
+      description: 'Budget item created'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Status is not one a new line can start at'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Area, item or decision option not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Item or decision option already has a budget line'
+    }
+  }
+})
+
+app.openapi(createBudgetItemRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const body = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const statusProblem = initialStatusProblem(body.status)
+  if (statusProblem) return c.json({ message: statusProblem }, 400)
+
+  if (body.areaId && !(await areaExists(db, projectId, body.areaId))) {
+    return c.json({ message: 'Area not found' }, 404)
+  }
+
+  const problem = await checkLink(db, projectId, body)
+  if (problem) return c.json({ message: problem.message }, problem.status === 'notFound' ? 404 : 409)
+
+  const id = crypto.randomUUID()
+  const [[result]] = await db.batch([
+    db.insert(budgetItems).values({ id, projectId, ...body }).returning(),
+    statusEvent(db, id, null, body.status, getActor(c))
+  ])
+
+  return c.json(serializeBudgetItem(result), 201)
+})
+
+// Get Budget Item
+const getBudgetItemRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}',
+  operationId: 'getBudgetItem',
+  request: {
+    params: BudgetItemIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: BudgetItemSchema } },
+      description: 'Budget item'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Budget item not found'
+    }
+  }
+})
+
+app.openapi(getBudgetItemRoute, async (c) => {
+  const { projectId, budgetItemId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const result = await db.select()
+    .from(budgetItems)
+    .where(and(eq(budgetItems.id, budgetItemId), eq(budgetItems.projectId, projectId)))
+    .get()
+  if (!result) return c.json({ message: 'Budget item not found' }, 404)
+
+  return c.json(serializeBudgetItem(result), 200)
+})
+
+// Update Budget Item
+const updateBudgetItemRoute = createRoute({
+  method: 'patch',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}',
+  operationId: 'updateBudgetItem',
+  request: {
+    params: BudgetItemIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateBudgetItemSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: BudgetItemSchema } },
+      description: 'Budget item updated'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Budget item, area, item or decision option not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Item or decision option already has a budget line, or the status cannot move there'
+    }
+  }
+})
+
+app.openapi(updateBudgetItemRoute, async (c) => {
+  const { projectId, budgetItemId } = c.req.valid('param')
+  const updates = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const match = and(eq(budgetItems.id, budgetItemId), eq(budgetItems.projectId, projectId))
+  const existing = await db.select().from(budgetItems).where(match).get()
+  if (!existing) return c.json({ message: 'Budget item not found' }, 404)
+
+  const statusProblem = updates.status ? transitionProblem(existing.status, updates.status) : null
+  if (statusProblem) return c.json({ message: statusProblem }, 409)
+
+  if (updates.areaId && !(await areaExists(db, projectId, updates.areaId))) {
+    return c.json({ message: 'Area not found' }, 404)
+  }
+
+  const problem = await checkLink(db, projectId, updates, budgetItemId)
+  if (problem) return c.json({ message: problem.message }, problem.status === 'notFound' ? 404 : 409)
+
+  if (Object.keys(updates).length === 0) return c.json(serializeBudgetItem(existing), 200)
+
+  // Edited by hand, the line is no longer the sync's to change or remove
+  const moved = updates.status !== undefined && updates.status !== existing.status
+  const [[result]] = await db.batch([
+    db.update(budgetItems).set({ ...updates, origin: 'manual' }).where(match).returning(),
+    ...(moved ? [statusEvent(db, budgetItemId, existing.status, updates.status!, getActor(c))] : [])
+  ])
+
+  return c.json(serializeBudgetItem(result), 200)
+})
+
+// Delete Budget Item
+const deleteBudgetItemRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}',
+  operationId: 'deleteBudgetItem',
+  request: {
+    params: BudgetItemIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: BudgetItemIdParam.pick({ budgetItemId: true }) } },
+      description: 'Budget item deleted'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Budget item not found'
+    }
+  }
+})
+
+app.openapi(deleteBudgetItemRoute, async (c) => {
+  const { projectId, budgetItemId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const deleted = await db.delete(budgetItems)
+    .where(and(eq(budgetItems.id, budgetItemId), eq(budgetItems.projectId, projectId)))
+    .returning({ id: budgetItems.id })
+    .get()
+
+  if (!deleted) return c.json({ message: 'Budget item not found' }, 404)
+
+  return c.json({ budgetItemId }, 200)
+})
+
+// Budget Item Status Timeline
+const budgetItemTimelineRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}/timeline',
+  operationId: 'getBudgetItemTimeline',
+  request: {
+    params: BudgetItemIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(BudgetStatusEventSchema) } },
+      description: 'Every status the line has been moved to, who moved it and when, oldest first'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Budget item not found'
+    }
+  }
+})
+
+app.openapi(budgetItemTimelineRoute, async (c) => {
+  const { projectId, budgetItemId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const existing = await db.select({ id: budgetItems.id })
+    .from(budgetItems)
+    .where(and(eq(budgetItems.id, budgetItemId), eq(budgetItems.projectId, projectId)))
+    .get()
+  if (!existing) return c.json({ message: 'Budget item not found' }, 404)
+
+  return c.json(await getBudgetTimeline(db, budgetItemId), 200)
+})
+
+// Budget Summary
+const budgetSummaryRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/budget/summary',
+  operationId: 'getBudgetSummary',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: BudgetSummarySchema } },
+      description: 'Project budget against committed and spent cost, per envelope, with over-allocation warnings'
+    }
+  }
+})
+
+app.openapi(budgetSummaryRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  return c.json(await getBudgetSummary(db, projectId), 200)
+})
+
+// Budget Reconciliation against checklist selections and decisions
+const reconciliationRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/budget/reconciliation',
+  operationId: 'getBudgetReconciliation',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: BudgetReconciliationSchema } },
+      description: 'Priced selections without a budget line, lines without a selection, and linked lines that disagree on price'
+    }
+  }
+})
+
+app.openapi(reconciliationRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  return c.json(await reconcileBudget(db, projectId), 200)
+})
+
+// Set Budget Total
+const setBudgetTotalRoute = createRoute({
+  method: 'put',
+  path: '/api/projects/{projectId}/budget/total',
+  operationId: 'setBudgetTotal',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: SetBudgetTotalSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: BudgetSummarySchema } },
+      description: 'Budget total set; returns the updated summary'
+    }
+  }
+})
+
+app.openapi(setBudgetTotalRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { total } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  await db.insert(budgets)
+    .values({ projectId, total })
+    .onConflictDoUpdate({ target: budgets.projectId, set: { total, updatedAt: new Date() } })
+
+  return c.json(await getBudgetSummary(db, projectId), 200)
+})
+
+// List Budget Allocations
+const listAllocationsRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/budget/allocations',
+  operationId: 'listBudgetAllocations',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(BudgetAllocationSchema) } },
+      description: 'Category envelopes, then area envelopes'
+    }
+  }
+})
+
+app.openapi(listAllocationsRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const result = await db.select()
+    .from(budgetAllocations)
+    .where(eq(budgetAllocations.projectId, projectId))
+    .orderBy(asc(budgetAllocations.scope), asc(budgetAllocations.scopeKey))
+    .all()
+
+  return c.json(result.map(serializeAllocation), 200)
+})
+
+// Set Budget Allocation (creates the envelope or replaces its amount)
+const setAllocationRoute = createRoute({
+  method: 'put',
+  path: '/api/projects/{projectId}/budget/allocations',
+  operationId: 'setBudgetAllocation',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: SetBudgetAllocationSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: BudgetAllocationSchema } },
+      description: 'Allocation set'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Area not found'
+    }
+  }
+})
+
+app.openapi(setAllocationRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { scope, scopeKey, amount, note } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (scope === 'area' && !(await areaExists(db, projectId, scopeKey))) {
+    return c.json({ message: 'Area not found' }, 404)
+  }
+
+  const result = await db.insert(budgetAllocations)
+    .values({ id: crypto.randomUUID(), projectId, scope, scopeKey, amount, note: note ?? null })
+    .onConflictDoUpdate({
+      target: [budgetAllocations.projectId, budgetAllocations.scope, budgetAllocations.scopeKey],
+      set: { amount, ...(note !== undefined && { note }), updatedAt: new Date() }
+    })
+    .returning()
+    .get()
+
+  return c.json(serializeAllocation(result), 200)
+})
+
+// Delete Budget Allocation
+const deleteAllocationRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/budget/allocations/{allocationId}',
+  operationId: 'deleteBudgetAllocation',
+  request: {
+    params: BudgetAllocationIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: BudgetAllocationIdParam.pick({ allocationId: true }) } },
+      description: 'Allocation deleted'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Allocation not found'
+    }
+  }
+})
+
+app.openapi(deleteAllocationRoute, async (c) => {
+  const { projectId, allocationId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const deleted = await db.delete(budgetAllocations)
+    .where(and(eq(budgetAllocations.id, allocationId), eq(budgetAllocations.projectId, projectId)))
+    .returning({ id: budgetAllocations.id })
+    .get()
+
+  if (!deleted) return c.json({ message: 'Allocation not found' }, 404)
+
+  return c.json({ allocationId }, 200)
+})
+
+export default app
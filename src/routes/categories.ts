@@ -1,13 +1,24 @@
-import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
 import { drizzle } from 'drizzle-orm/d1'
-import { items, categories } from '../db/schema'
+import { items, categories, attachments } from '../db/schema'
 import * as schema from '../db/schema'
-import { eq, desc } from 'drizzle-orm'
+import { eq, and, asc, inArray, isNull } from 'drizzle-orm'
+import { matchesMembership } from '../db/ordering'
+import { getActor, diffEvents, batchWithEvents, encodeValue } from '../services/history'
+import { removeStoredFiles } from '../services/attachments'
+import { categoryInProject } from '../services/projects'
+import { createItem, nextVersion } from '../services/items'
+import { syncItemLines, followingLineDeletes } from '../services/budget-links'
+import { publishChanges, itemUpserts, categoryUpserts, categoryDeletes } from '../services/sync'
 import { 
   ItemSchema, 
+  CategorySchema,
   ErrorSchema, 
   CategoryIdParam, 
-  CreateItemSchema 
+  CreateItemSchema,
+  UpdateCategorySchema,
+  ReorderItemsSchema,
+  DeleteQuerySchema
 } from '../zod'
 
 const app = new OpenAPIHono<{ Bindings: Env }>()
@@ -15,7 +26,7 @@ const app = new OpenAPIHono<{ Bindings: Env }>()
 // Create Item in Category
 const createItemRoute = createRoute({
   method: 'post',
-  path: '/api/categories/{categoryId}/items',
+  path: '/api/projects/{projectId}/categories/{categoryId}/items',
   operationId: 'createItem',
   request: {
     params: CategoryIdParam,
@@ -35,42 +46,276 @@ const createItemRoute = createRoute({
     400: {
       content: { 'application/json': { schema: ErrorSchema } },
       description: 'Invalid input'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Category not found'
     }
   }
 })
 
-import type { Context } from 'hono';
-
 app.openapi(createItemRoute, async (c) => {
-  const { categoryId } = c.req.valid('param')
-  const { label, note } = c.req.valid('json')
+  const { projectId, categoryId } = c.req.valid('param')
+  const fields = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (isNaN(categoryId)) {
+    return c.json({ message: 'Invalid category ID' }, 400)
+  }
+
+  const result = await createItem(db, projectId, categoryId, fields, getActor(c))
+  if (result.status === 'notFound') return c.json({ message: result.message }, 404)
+
+  publishChanges(c, projectId, result.sync)
+  return c.json(result.item, 201)
+})
+
+const CategoryRowSchema = CategorySchema.omit({ items: true, progress: true })
+
+// Update Category (rename, change type, reorder)
+const updateCategoryRoute = createRoute({
+  method: 'patch',
+  path: '/api/projects/{projectId}/categories/{categoryId}',
+  operationId: 'updateCategory',
+  request: {
+    params: CategoryIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateCategorySchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: CategoryRowSchema } },
+      description: 'Category updated'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Invalid input'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Category not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Cannot become a radio group while more than one of its items is checked'
+    }
+  }
+})
+
+app.openapi(updateCategoryRoute, async (c) => {
+  const { projectId, categoryId } = c.req.valid('param')
+  const changes = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (isNaN(categoryId)) {
+    return c.json({ message: 'Invalid category ID' }, 400)
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return c.json({ message: 'No fields to update' }, 400)
+  }
+
+  const existing = await db.select()
+    .from(categories)
+    .where(and(eq(categories.id, categoryId), categoryInProject(db, projectId)))
+    .get()
+
+  if (!existing) return c.json({ message: 'Category not found' }, 404)
+
+  // A radio group has at most one selection; which one to keep is the user's call
+  if (changes.type === 'radio' && existing.type !== 'radio') {
+    const checked = await db.select({ id: items.id })
+      .from(items)
+      .where(and(eq(items.categoryId, categoryId), eq(items.isChecked, true), isNull(items.deletedAt)))
+      .all()
+    if (checked.length > 1) {
+      return c.json({ message: `${checked.length} items are checked; uncheck all but one before making this a radio group` }, 409)
+    }
+  }
+
+  const events = diffEvents({ categoryId, areaId: existing.areaId, actor: getActor(c) }, existing, changes)
+
+  await batchWithEvents(db, projectId, [
+    db.update(categories).set(changes).where(eq(categories.id, categoryId))
+  ], events)
+
+  // Budget lines for its selections are filed under the category name
+  if (changes.name !== undefined && changes.name !== existing.name) {
+    await syncItemLines(db, projectId, getActor(c), eq(items.categoryId, categoryId))
+  }
+
+  const result = { ...existing, ...changes }
+  publishChanges(c, projectId, categoryUpserts([result]))
+  return c.json(result, 200)
+})
+
+// Delete Category
+const deleteCategoryRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/categories/{categoryId}',
+  operationId: 'deleteCategory',
+  request: {
+    params: CategoryIdParam,
+    query: DeleteQuerySchema
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: CategoryRowSchema.pick({ id: true }) } },
+      description: 'Category deleted'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Invalid input'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Category not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Category still has items and cascade was not requested'
+    }
+  }
+})
+
+app.openapi(deleteCategoryRoute, async (c) => {
+  const { projectId, categoryId } = c.req.valid('param')
+  const { cascade } = c.req.valid('query')
   const db = drizzle(c.env.DB, { schema })
 
   if (isNaN(categoryId)) {
     return c.json({ message: 'Invalid category ID' }, 400)
   }
 
-  // Find max sort order
-  const resultMax = await db.select({ sortOrder: items.sortOrder })
+  const category = await db.select()
+    .from(categories)
+    .where(and(eq(categories.id, categoryId), categoryInProject(db, projectId)))
+    .get()
+
+  if (!category) return c.json({ message: 'Category not found' }, 404)
+
+  const contained = await db.select()
     .from(items)
     .where(eq(items.categoryId, categoryId))
-    .orderBy(desc(items.sortOrder))
-    .limit(1)
+    .all()
+
+  // Trashed items don't block the delete, but they are removed with the category
+  const liveCount = contained.filter((item) => item.deletedAt === null).length
+  if (liveCount > 0 && !cascade) {
+    return c.json({ message: `Category has ${liveCount} items; pass ?cascade=true to delete them` }, 409)
+  }
+
+  const files = contained.length > 0
+    ? await db.select({ id: attachments.id, storage: attachments.storage })
+      .from(attachments)
+      .where(inArray(attachments.itemId, contained.map((item) => item.id)))
+      .all()
+    : []
+
+  const actor = getActor(c)
+  const target = { categoryId, areaId: category.areaId, actor }
+
+  await batchWithEvents(db, projectId, [
+    followingLineDeletes(db, 'itemId', db.select({ id: items.id }).from(items).where(eq(items.categoryId, categoryId))),
+    db.delete(items).where(eq(items.categoryId, categoryId)),
+    db.delete(categories).where(eq(categories.id, categoryId))
+  ], [
+    ...contained.map((item) => ({ ...target, itemId: item.id, action: 'delete' as const, oldValue: encodeValue(item) })),
+    { ...target, action: 'delete', oldValue: encodeValue(category) }
+  ])
+
+  await removeStoredFiles(c.env, files)
+
+  publishChanges(c, projectId, categoryDeletes(category.areaId, [categoryId]))
+  return c.json({ id: categoryId }, 200)
+})
+
+// Reorder Items in Category
+const reorderItemsRoute = createRoute({
+  method: 'put',
+  path: '/api/projects/{projectId}/categories/{categoryId}/items/order',
+  operationId: 'reorderItems',
+  request: {
+    params: CategoryIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: ReorderItemsSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(ItemSchema) } },
+      description: 'Items reordered'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Invalid input'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Category not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Ids do not match the current items in the category'
+    }
+  }
+})
+
+app.openapi(reorderItemsRoute, async (c) => {
+  const { projectId, categoryId } = c.req.valid('param')
+  const { ids } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (isNaN(categoryId)) {
+    return c.json({ message: 'Invalid category ID' }, 400)
+  }
+
+  const category = await db.select({ id: categories.id, areaId: categories.areaId })
+    .from(categories)
+    .where(and(eq(categories.id, categoryId), categoryInProject(db, projectId)))
     .get()
-  
-  const sortOrder = resultMax ? resultMax.sortOrder + 1 : 0
-  const id = crypto.randomUUID()
 
-  const result = await db.insert(items).values({
-    id,
+  if (!category) return c.json({ message: 'Category not found' }, 404)
+
+  const current = await db.select({ id: items.id })
+    .from(items)
+    .where(and(eq(items.categoryId, categoryId), isNull(items.deletedAt)))
+    .orderBy(asc(items.sortOrder))
+    .all()
+
+  if (!matchesMembership(current.map((row) => row.id), ids)) {
+    return c.json({ message: 'Ids must list every item in the category exactly once' }, 409)
+  }
+
+  await batchWithEvents(db, projectId, ids.map((id, index) =>
+    db.update(items).set({ sortOrder: index, version: nextVersion }).where(eq(items.id, id))
+  ), [{
     categoryId,
-    label,
-    note: note || null,
-    isChecked: false,
-    sortOrder
-  }).returning().get()
+    areaId: category.areaId,
+    actor: getActor(c),
+    action: 'reorder',
+    field: 'items',
+    oldValue: encodeValue(current.map((row) => row.id)),
+    newValue: encodeValue(ids)
+  }])
+
+  const result = await db.select()
+    .from(items)
+    .where(and(eq(items.categoryId, categoryId), isNull(items.deletedAt)))
+    .orderBy(asc(items.sortOrder))
+    .all()
 
-  return c.json(result, 201)
+  publishChanges(c, projectId, itemUpserts(category.areaId, result))
+  return c.json(result, 200)
 })
 
 export default app
@@ -1,14 +1,59 @@
-import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
-import { drizzle } from 'drizzle-orm/d1'
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle, type DrizzleD1Database } from 'drizzle-orm/d1'
+import { alias } from 'drizzle-orm/sqlite-core'
+import { items, categories, areas, itemDependencies } from '../db/schema'
 import * as schema from '../db/schema'
-import { ChecklistResponseSchema } from '../zod'
+import { eq, and, asc, isNull } from 'drizzle-orm'
+import { withProgress, combineProgress } from '../services/progress'
+import { toCsv, toMarkdown, toHtml } from '../services/export'
+import { renderPdf } from '../services/browser-rendering'
+import { Logger } from '../services/logger'
+import {
+  ChecklistResponseSchema,
+  ChecklistSummarySchema,
+  ChecklistQuerySchema,
+  ExportQuerySchema,
+  BlockedItemSchema,
+  ProjectIdParam
+} from '../zod'
 
 const app = new OpenAPIHono<{ Bindings: Env }>()
 
+// Load the area -> category -> item tree in display order, with progress rollups attached
+const loadChecklist = async (db: DrizzleD1Database<typeof schema>, projectId: string, includeDeleted: boolean) => {
+  const allAreas = await db.query.areas.findMany({
+    where: (areas, { eq }) => eq(areas.projectId, projectId),
+    with: {
+      categories: {
+        orderBy: (categories, { asc }) => [asc(categories.sortOrder)],
+        with: {
+          items: {
+            where: includeDeleted ? undefined : (items, { isNull }) => isNull(items.deletedAt),
+            orderBy: (items, { asc }) => [asc(items.sortOrder)],
+            with: {
+              attachments: {
+                columns: { id: true, fileName: true, contentType: true, url: true, thumbnailUrl: true },
+                orderBy: (attachments, { asc }) => [asc(attachments.createdAt)]
+              }
+            }
+          }
+        }
+      }
+    },
+    orderBy: (areas, { asc }) => [asc(areas.sortOrder)]
+  })
+
+  return withProgress(allAreas)
+}
+
 const getChecklistRoute = createRoute({
   method: 'get',
-  path: '/api/checklist',
+  path: '/api/projects/{projectId}/checklist',
   operationId: 'getFullChecklist',
+  request: {
+    params: ProjectIdParam,
+    query: ChecklistQuerySchema
+  },
   responses: {
     200: {
       content: {
@@ -21,23 +66,11 @@ const getChecklistRoute = createRoute({
   }
 })
 
-import type { Context } from 'hono';
-
 app.openapi(getChecklistRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { includeDeleted } = c.req.valid('query')
   const db = drizzle(c.env.DB, { schema })
-  const allAreas = await db.query.areas.findMany({
-    with: {
-      categories: {
-        orderBy: (categories, { asc }) => [asc(categories.sortOrder)],
-        with: {
-          items: {
-            orderBy: (items, { asc }) => [asc(items.sortOrder)]
-          }
-        }
-      }
-    },
-    orderBy: (areas, { asc }) => [asc(areas.sortOrder)]
-  })
+  const allAreas = await loadChecklist(db, projectId, includeDeleted)
 
   // Transform Array to Record<AreaId, Area>
   const response: Record<string, any> = {}
@@ -48,4 +81,162 @@ app.openapi(getChecklistRoute, async (c) => {
   return c.json(response)
 })
 
+const getChecklistSummaryRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/checklist/summary',
+  operationId: 'getChecklistSummary',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: ChecklistSummarySchema
+        }
+      },
+      description: 'Progress rollups per area and category, without items'
+    }
+  }
+})
+
+app.openapi(getChecklistSummaryRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+  const allAreas = await loadChecklist(db, projectId, false)
+
+  return c.json({
+    progress: combineProgress(allAreas.map((area) => area.progress)),
+    areas: allAreas.map((area) => ({
+      id: area.id,
+      key: area.key,
+      title: area.title,
+      progress: area.progress,
+      categories: area.categories.map(({ id, name, progress }) => ({ id, name, progress }))
+    }))
+  }, 200)
+})
+
+const exportChecklistRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/checklist/export',
+  operationId: 'exportChecklist',
+  request: {
+    params: ProjectIdParam,
+    query: ExportQuerySchema
+  },
+  responses: {
+    200: {
+      description: 'Checklist with check state, notes and prices as text/csv, text/markdown or application/pdf (text/html when PDF rendering is unavailable)'
+    }
+  }
+})
+
+app.openapi(exportChecklistRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { format } = c.req.valid('query')
+  const db = drizzle(c.env.DB, { schema })
+  const allAreas = await loadChecklist(db, projectId, false)
+
+  const now = new Date()
+  const fileName = `checklist-${now.toISOString().slice(0, 10)}`
+
+  if (format === 'csv') {
+    return new Response(toCsv(allAreas), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.csv"`
+      }
+    })
+  }
+
+  if (format === 'md') {
+    return new Response(toMarkdown(allAreas, now), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.md"`
+      }
+    })
+  }
+
+  const html = toHtml(allAreas, now)
+
+  if (c.env.CLOUDFLARE_BROWSER_RENDER_TOKEN) {
+    try {
+      const pdf = await renderPdf(c.env, html)
+      return new Response(pdf, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${fileName}.pdf"`
+        }
+      })
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error'
+      await new Logger(c.env, 'ChecklistExport').error('PDF rendering failed; serving HTML instead', { error: msg })
+    }
+  }
+
+  // No Browser Rendering (e.g. under `wrangler dev`): serve the print template itself
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  })
+})
+
+const getBlockedItemsRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/checklist/blocked',
+  operationId: 'getBlockedItems',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: {
+        'application/json': {
+          schema: z.array(BlockedItemSchema)
+        }
+      },
+      description: 'Unchecked items waiting on unchecked prerequisites, in checklist order'
+    }
+  }
+})
+
+app.openapi(getBlockedItemsRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+  const prerequisite = alias(items, 'prerequisite')
+
+  const rows = await db.select({
+    item: items,
+    area: { id: areas.id, title: areas.title },
+    category: { id: categories.id, name: categories.name },
+    blocker: prerequisite
+  })
+    .from(itemDependencies)
+    .innerJoin(items, eq(itemDependencies.itemId, items.id))
+    .innerJoin(prerequisite, eq(itemDependencies.dependsOnId, prerequisite.id))
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .innerJoin(areas, eq(categories.areaId, areas.id))
+    .where(and(
+      eq(areas.projectId, projectId),
+      eq(items.isChecked, false),
+      isNull(items.deletedAt),
+      eq(prerequisite.isChecked, false),
+      isNull(prerequisite.deletedAt)
+    ))
+    .orderBy(asc(areas.sortOrder), asc(categories.sortOrder), asc(items.sortOrder), asc(prerequisite.sortOrder))
+    .all()
+
+  // One row per (item, blocker) pair; fold into one entry per item, keeping order
+  type Row = (typeof rows)[number]
+  const blocked = new Map<string, Row['item'] & Pick<Row, 'area' | 'category'> & { blockedBy: Row['blocker'][] }>()
+  for (const { item, area, category, blocker } of rows) {
+    const entry = blocked.get(item.id) ?? { ...item, area, category, blockedBy: [] }
+    entry.blockedBy.push(blocker)
+    blocked.set(item.id, entry)
+  }
+
+  return c.json([...blocked.values()], 200)
+})
+
 export default app
@@ -0,0 +1,592 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { areas, decisions, decisionOptions } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, asc, desc, inArray } from 'drizzle-orm'
+import { getActor } from '../services/history'
+import { loadDecision, withChosenPrice, chosenOption, compareOptions, committedTotal } from '../services/decisions'
+import { decisionInProject } from '../services/projects'
+import { syncDecisionLine, followingLineDeletes } from '../services/budget-links'
+import {
+  DecisionSchema,
+  DecisionOptionSchema,
+  DecisionComparisonSchema,
+  DecisionDeltaSchema,
+  ErrorSchema,
+  CreateDecisionSchema,
+  UpdateDecisionSchema,
+  CreateDecisionOptionSchema,
+  UpdateDecisionOptionSchema,
+  ChooseOptionSchema,
+  DecisionsQuerySchema,
+  DecisionDeltaQuerySchema,
+  ProjectIdParam,
+  DecisionIdParam,
+  DecisionOptionParam
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+const DecisionRowSchema = DecisionSchema.omit({ options: true, chosenPrice: true })
+
+// List Decisions
+const listDecisionsRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/decisions',
+  operationId: 'listDecisions',
+  request: {
+    params: ProjectIdParam,
+    query: DecisionsQuerySchema
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(DecisionSchema) } },
+      description: 'Decisions with their options, in display order'
+    }
+  }
+})
+
+app.openapi(listDecisionsRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { areaId } = c.req.valid('query')
+  const db = drizzle(c.env.DB, { schema })
+
+  const result = await db.query.decisions.findMany({
+    where: and(decisionInProject(db, projectId), areaId ? eq(decisions.areaId, areaId) : undefined),
+    orderBy: [asc(decisions.areaId), asc(decisions.sortOrder)],
+    with: { options: { orderBy: [asc(decisionOptions.sortOrder)] } }
+  })
+
+  return c.json(result.map(withChosenPrice), 200)
+})
+
+// Create Decision (optionally with its options)
+const createDecisionRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/decisions',
+  operationId: 'createDecision',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateDecisionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: DecisionSchema } },
+      description: 'Decision created'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Area not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Decision or option id already exists'
+    }
+  }
+})
+
+app.openapi(createDecisionRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { id, areaId, title, description, sortOrder, options } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const area = await db.select({ id: areas.id })
+    .from(areas)
+    .where(and(eq(areas.id, areaId), eq(areas.projectId, projectId)))
+    .get()
+  if (!area) return c.json({ message: 'Area not found' }, 404)
+
+  // Same slug rule as areas, hyphenated like the JSON catalogs ('kitchen-layout')
+  const decisionId = id || title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+
+  const existing = await db.select({ id: decisions.id }).from(decisions).where(eq(decisions.id, decisionId)).get()
+  if (existing) return c.json({ message: `Decision '${decisionId}' already exists` }, 409)
+
+  const optionRows = options.map((option, index) => ({
+    id: option.id || crypto.randomUUID(),
+    decisionId,
+    label: option.label,
+    description: option.description ?? null,
+    price: option.price ?? 0,
+    sortOrder: option.sortOrder ?? index
+  }))
+
+  const optionIds = optionRows.map((option) => option.id)
+  if (new Set(optionIds).size !== optionIds.length) {
+    return c.json({ message: 'Option ids must be unique' }, 409)
+  }
+  if (optionIds.length > 0) {
+    const taken = await db.select({ id: decisionOptions.id })
+      .from(decisionOptions)
+      .where(inArray(decisionOptions.id, optionIds))
+      .all()
+    if (taken.length > 0) {
+      return c.json({ message: `Option ids already exist: ${taken.map((row) => row.id).join(', ')}` }, 409)
+    }
+  }
+
+  let nextSortOrder = sortOrder
+  if (nextSortOrder === undefined) {
+    const resultMax = await db.select({ sortOrder: decisions.sortOrder })
+      .from(decisions)
+      .where(eq(decisions.areaId, areaId))
+      .orderBy(desc(decisions.sortOrder))
+      .limit(1)
+      .get()
+    nextSortOrder = resultMax ? resultMax.sortOrder + 1 : 0
+  }
+
+  const insertDecision = db.insert(decisions).values({
+    id: decisionId,
+    areaId,
+    title,
+    description: description ?? null,
+    sortOrder: nextSortOrder
+  })
+
+  if (optionRows.length > 0) {
+    await db.batch([insertDecision, db.insert(decisionOptions).values(optionRows)])
+  } else {
+    await insertDecision
+  }
+
+  const result = await loadDecision(db, projectId, decisionId)
+  return c.json(withChosenPrice(result!), 201)
+})
+
+// Get Decision
+const getDecisionRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/decisions/{decisionId}',
+  operationId: 'getDecision',
+  request: {
+    params: DecisionIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: DecisionSchema } },
+      description: 'Decision with its options'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Decision not found'
+    }
+  }
+})
+
+app.openapi(getDecisionRoute, async (c) => {
+  const { projectId, decisionId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const result = await loadDecision(db, projectId, decisionId)
+  if (!result) return c.json({ message: 'Decision not found' }, 404)
+
+  return c.json(withChosenPrice(result), 200)
+})
+
+// Update Decision
+const updateDecisionRoute = createRoute({
+  method: 'patch',
+  path: '/api/projects/{projectId}/decisions/{decisionId}',
+  operationId: 'updateDecision',
+  request: {
+    params: DecisionIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateDecisionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: DecisionRowSchema } },
+      description: 'Decision updated'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Decision not found'
+    }
+  }
+})
+
+app.openapi(updateDecisionRoute, async (c) => {
+  const { projectId, decisionId } = c.req.valid('param')
+  const updates = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const existing = await db.select()
+    .from(decisions)
+    .where(and(eq(decisions.id, decisionId), decisionInProject(db, projectId)))
+    .get()
+  if (!existing) return c.json({ message: 'Decision not found' }, 404)
+
+  if (Object.keys(updates).length === 0) return c.json(existing, 200)
+
+  const result = await db.update(decisions)
+    .set(updates)
+    .where(eq(decisions.id, decisionId))
+    .returning()
+    .get()
+
+  // The chosen option's budget line is filed under the decision title
+  if (updates.title !== undefined && updates.title !== existing.title) {
+    await syncDecisionLine(db, projectId, decisionId, getActor(c))
+  }
+
+  return c.json(result, 200)
+})
+
+// Delete Decision (options go with it)
+const deleteDecisionRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/decisions/{decisionId}',
+  operationId: 'deleteDecision',
+  request: {
+    params: DecisionIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: DecisionIdParam.pick({ decisionId: true }) } },
+      description: 'Decision deleted'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Decision not found'
+    }
+  }
+})
+
+app.openapi(deleteDecisionRoute, async (c) => {
+  const { projectId, decisionId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const existing = await db.select({ id: decisions.id })
+    .from(decisions)
+    .where(and(eq(decisions.id, decisionId), decisionInProject(db, projectId)))
+    .get()
+  if (!existing) return c.json({ message: 'Decision not found' }, 404)
+
+  await db.batch([
+    followingLineDeletes(db, 'decisionOptionId', db.select({ id: decisionOptions.id })
+      .from(decisionOptions)
+      .where(eq(decisionOptions.decisionId, decisionId))),
+    db.delete(decisions).where(eq(decisions.id, decisionId))
+  ])
+
+  return c.json({ decisionId }, 200)
+})
+
+// Add Option to Decision
+const createOptionRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/decisions/{decisionId}/options',
+  operationId: 'createDecisionOption',
+  request: {
+    params: DecisionIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateDecisionOptionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: DecisionOptionSchema } },
+      description: 'Option added'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Decision not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Option id already exists'
+    }
+  }
+})
+
+app.openapi(createOptionRoute, async (c) => {
+  const { projectId, decisionId } = c.req.valid('param')
+  const { id, label, description, price, sortOrder } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const decision = await db.select({ id: decisions.id })
+    .from(decisions)
+    .where(and(eq(decisions.id, decisionId), decisionInProject(db, projectId)))
+    .get()
+  if (!decision) return c.json({ message: 'Decision not found' }, 404)
+
+  if (id) {
+    const taken = await db.select({ id: decisionOptions.id }).from(decisionOptions).where(eq(decisionOptions.id, id)).get()
+    if (taken) return c.json({ message: `Option '${id}' already exists` }, 409)
+  }
+
+  let nextSortOrder = sortOrder
+  if (nextSortOrder === undefined) {
+    const resultMax = await db.select({ sortOrder: decisionOptions.sortOrder })
+      .from(decisionOptions)
+      .where(eq(decisionOptions.decisionId, decisionId))
+      .orderBy(desc(decisionOptions.sortOrder))
+      .limit(1)
+      .get()
+    nextSortOrder = resultMax ? resultMax.sortOrder + 1 : 0
+  }
+
+  const result = await db.insert(decisionOptions).values({
+    id: id || crypto.randomUUID(),
+    decisionId,
+    label,
+    description: description ?? null,
+    price: price ?? 0,
+    sortOrder: nextSortOrder
+  }).returning().get()
+
+  return c.json(result, 201)
+})
+
+// Update Option
+const updateOptionRoute = createRoute({
+  method: 'patch',
+  path: '/api/projects/{projectId}/decisions/{decisionId}/options/{optionId}',
+  operationId: 'updateDecisionOption',
+  request: {
+    params: DecisionOptionParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateDecisionOptionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: DecisionOptionSchema } },
+      description: 'Option updated'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Option not found'
+    }
+  }
+})
+
+app.openapi(updateOptionRoute, async (c) => {
+  const { projectId, decisionId, optionId } = c.req.valid('param')
+  const updates = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const decision = await db.select({ id: decisions.id })
+    .from(decisions)
+    .where(and(eq(decisions.id, decisionId), decisionInProject(db, projectId)))
+    .get()
+  if (!decision) return c.json({ message: 'Option not found' }, 404)
+
+  const match = and(eq(decisionOptions.id, optionId), eq(decisionOptions.decisionId, decisionId))
+
+  const existing = await db.select().from(decisionOptions).where(match).get()
+  if (!existing) return c.json({ message: 'Option not found' }, 404)
+
+  if (Object.keys(updates).length === 0) return c.json(existing, 200)
+
+  const result = await db.update(decisionOptions)
+    .set(updates)
+    .where(match)
+    .returning()
+    .get()
+
+  await syncDecisionLine(db, projectId, decisionId, getActor(c))
+
+  return c.json(result, 200)
+})
+
+// Delete Option (reopens the decision if it was the chosen one)
+const deleteOptionRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/decisions/{decisionId}/options/{optionId}',
+  operationId: 'deleteDecisionOption',
+  request: {
+    params: DecisionOptionParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: DecisionSchema } },
+      description: 'Option deleted; returns the remaining decision'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Option not found'
+    }
+  }
+})
+
+app.openapi(deleteOptionRoute, async (c) => {
+  const { projectId, decisionId, optionId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const decision = await loadDecision(db, projectId, decisionId)
+  if (!decision || !decision.options.some((option) => option.id === optionId)) {
+    return c.json({ message: 'Option not found' }, 404)
+  }
+
+  const removeOption = [
+    followingLineDeletes(db, 'decisionOptionId', [optionId]),
+    db.delete(decisionOptions).where(eq(decisionOptions.id, optionId))
+  ] as const
+
+  if (decision.chosenOptionId === optionId) {
+    await db.batch([
+      db.update(decisions)
+        .set({ chosenOptionId: null, rationale: null, decidedBy: null, decidedAt: null })
+        .where(eq(decisions.id, decisionId)),
+      ...removeOption
+    ])
+  } else {
+    await db.batch(removeOption)
+  }
+
+  const result = await loadDecision(db, projectId, decisionId)
+  return c.json(withChosenPrice(result!), 200)
+})
+
+// Choose Option (or reopen with optionId: null)
+const chooseOptionRoute = createRoute({
+  method: 'put',
+  path: '/api/projects/{projectId}/decisions/{decisionId}/choice',
+  operationId: 'chooseDecisionOption',
+  request: {
+    params: DecisionIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: ChooseOptionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: DecisionSchema } },
+      description: 'Choice recorded'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Decision not found'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Option does not belong to the decision'
+    }
+  }
+})
+
+app.openapi(chooseOptionRoute, async (c) => {
+  const { projectId, decisionId } = c.req.valid('param')
+  const { optionId, rationale } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const decision = await loadDecision(db, projectId, decisionId)
+  if (!decision) return c.json({ message: 'Decision not found' }, 404)
+
+  if (optionId !== null && !decision.options.some((option) => option.id === optionId)) {
+    return c.json({ message: `Option '${optionId}' is not an option of '${decisionId}'` }, 400)
+  }
+
+  await db.update(decisions)
+    .set(optionId === null
+      ? { chosenOptionId: null, rationale: rationale ?? null, decidedBy: null, decidedAt: null }
+      : { chosenOptionId: optionId, rationale: rationale ?? null, decidedBy: getActor(c), decidedAt: new Date() })
+    .where(eq(decisions.id, decisionId))
+  await syncDecisionLine(db, projectId, decisionId, getActor(c))
+
+  const result = await loadDecision(db, projectId, decisionId)
+  return c.json(withChosenPrice(result!), 200)
+})
+
+// Compare Options side by side
+const compareOptionsRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/decisions/{decisionId}/compare',
+  operationId: 'compareDecisionOptions',
+  request: {
+    params: DecisionIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: DecisionComparisonSchema } },
+      description: 'Options with their price delta against the current choice'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Decision not found'
+    }
+  }
+})
+
+app.openapi(compareOptionsRoute, async (c) => {
+  const { projectId, decisionId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const decision = await loadDecision(db, projectId, decisionId)
+  if (!decision) return c.json({ message: 'Decision not found' }, 404)
+
+  return c.json(compareOptions(decision), 200)
+})
+
+// Cost Delta of switching the choice to another option
+const decisionDeltaRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/decisions/{decisionId}/delta',
+  operationId: 'getDecisionDelta',
+  request: {
+    params: DecisionIdParam,
+    query: DecisionDeltaQuerySchema
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: DecisionDeltaSchema } },
+      description: 'Cost change of switching to the option, for the decision and overall'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Decision or option not found'
+    }
+  }
+})
+
+app.openapi(decisionDeltaRoute, async (c) => {
+  const { projectId, decisionId } = c.req.valid('param')
+  const { optionId } = c.req.valid('query')
+  const db = drizzle(c.env.DB, { schema })
+
+  const decision = await loadDecision(db, projectId, decisionId)
+  if (!decision) return c.json({ message: 'Decision not found' }, 404)
+
+  const to = decision.options.find((option) => option.id === optionId)
+  if (!to) return c.json({ message: `Option '${optionId}' is not an option of '${decisionId}'` }, 404)
+
+  const from = chosenOption(decision)
+  const delta = to.price - (from?.price ?? 0)
+  const committedBefore = await committedTotal(db, projectId)
+
+  return c.json({
+    decisionId,
+    from,
+    to,
+    delta,
+    committedBefore,
+    committedAfter: committedBefore + delta
+  }, 200)
+})
+
+export default app
@@ -0,0 +1,195 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { items, categories, itemDependencies } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, asc, inArray, isNull } from 'drizzle-orm'
+import { getActor, batchWithEvents, encodeValue } from '../services/history'
+import { findCycle } from '../services/dependencies'
+import { categoryInProject, itemInProject } from '../services/projects'
+import {
+  ErrorSchema,
+  ItemIdParam,
+  DependencyParam,
+  AddDependencySchema,
+  ItemDependencySchema,
+  ItemDependenciesSchema,
+  DependencyCycleSchema
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// List Item Dependencies (both directions)
+const getDependenciesRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/items/{id}/dependencies',
+  operationId: 'getItemDependencies',
+  request: {
+    params: ItemIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ItemDependenciesSchema } },
+      description: 'Items this one depends on, and items that depend on it'
+    }
+  }
+})
+
+app.openapi(getDependenciesRoute, async (c) => {
+  const { projectId, id } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const prerequisites = await db.select({ item: items })
+    .from(itemDependencies)
+    .innerJoin(items, eq(itemDependencies.dependsOnId, items.id))
+    .where(and(eq(itemDependencies.itemId, id), itemInProject(db, projectId), isNull(items.deletedAt)))
+    .orderBy(asc(items.sortOrder))
+    .all()
+
+  const dependents = await db.select({ item: items })
+    .from(itemDependencies)
+    .innerJoin(items, eq(itemDependencies.itemId, items.id))
+    .where(and(eq(itemDependencies.dependsOnId, id), itemInProject(db, projectId), isNull(items.deletedAt)))
+    .orderBy(asc(items.sortOrder))
+    .all()
+
+  return c.json({
+    prerequisites: prerequisites.map((row) => row.item),
+    dependents: dependents.map((row) => row.item)
+  }, 200)
+})
+
+// Add Dependency
+const addDependencyRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/items/{id}/dependencies',
+  operationId: 'addItemDependency',
+  request: {
+    params: ItemIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: AddDependencySchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: ItemDependencySchema } },
+      description: 'Dependency added'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Item cannot depend on itself'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Item not found'
+    },
+    409: {
+      content: { 'application/json': { schema: DependencyCycleSchema } },
+      description: 'Dependency would create a cycle'
+    }
+  }
+})
+
+app.openapi(addDependencyRoute, async (c) => {
+  const { projectId, id } = c.req.valid('param')
+  const { dependsOnId } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (id === dependsOnId) {
+    return c.json({ message: 'An item cannot depend on itself' }, 400)
+  }
+
+  // Both ends must be in this project; dependencies never cross projects
+  const found = await db.select({ id: items.id, categoryId: items.categoryId, areaId: categories.areaId })
+    .from(items)
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .where(and(inArray(items.id, [id, dependsOnId]), categoryInProject(db, projectId), isNull(items.deletedAt)))
+    .all()
+
+  const item = found.find((row) => row.id === id)
+  if (!item || !found.some((row) => row.id === dependsOnId)) {
+    return c.json({ message: 'Item not found' }, 404)
+  }
+
+  // The dependency graph is small (one house), so check for cycles in memory
+  const edges = await db.select({ itemId: itemDependencies.itemId, dependsOnId: itemDependencies.dependsOnId })
+    .from(itemDependencies)
+    .all()
+
+  const cycle = findCycle(edges, id, dependsOnId)
+  if (cycle) {
+    return c.json({ message: 'Dependency would create a cycle', cycle }, 409)
+  }
+
+  await batchWithEvents(db, projectId, [
+    db.insert(itemDependencies).values({ itemId: id, dependsOnId }).onConflictDoNothing()
+  ], [{
+    itemId: id,
+    categoryId: item.categoryId,
+    areaId: item.areaId,
+    actor: getActor(c),
+    action: 'update',
+    field: 'dependsOn',
+    newValue: encodeValue(dependsOnId)
+  }])
+
+  return c.json({ itemId: id, dependsOnId }, 201)
+})
+
+// Remove Dependency
+const removeDependencyRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/items/{id}/dependencies/{dependsOnId}',
+  operationId: 'removeItemDependency',
+  request: {
+    params: DependencyParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ItemDependencySchema } },
+      description: 'Dependency removed'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Dependency not found'
+    }
+  }
+})
+
+app.openapi(removeDependencyRoute, async (c) => {
+  const { projectId, id, dependsOnId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const existing = await db.select({ categoryId: items.categoryId, areaId: categories.areaId })
+    .from(itemDependencies)
+    .innerJoin(items, eq(itemDependencies.itemId, items.id))
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .where(and(
+      eq(itemDependencies.itemId, id),
+      eq(itemDependencies.dependsOnId, dependsOnId),
+      categoryInProject(db, projectId)
+    ))
+    .get()
+
+  if (!existing) return c.json({ message: 'Dependency not found' }, 404)
+
+  await batchWithEvents(db, projectId, [
+    db.delete(itemDependencies)
+      .where(and(eq(itemDependencies.itemId, id), eq(itemDependencies.dependsOnId, dependsOnId)))
+  ], [{
+    itemId: id,
+    categoryId: existing.categoryId,
+    areaId: existing.areaId,
+    actor: getActor(c),
+    action: 'update',
+    field: 'dependsOn',
+    oldValue: encodeValue(dependsOnId)
+  }])
+
+  return c.json({ itemId: id, dependsOnId }, 200)
+})
+
+export default app
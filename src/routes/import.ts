@@ -0,0 +1,78 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import * as schema from '../db/schema'
+import { getActor, batchWithEvents } from '../services/history'
+import { publishResync } from '../services/sync'
+import { syncItemLines } from '../services/budget-links'
+import { readCatalog, planImport, duplicateItemIds, countChanges } from '../services/importer'
+import {
+  ImportCatalogSchema,
+  ImportQuerySchema,
+  ImportResultSchema,
+  ErrorSchema,
+  ProjectIdParam
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// Import a decision catalog (todo_schema.json or todo_schema_2.json format)
+const importCatalogRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/import',
+  operationId: 'importCatalog',
+  request: {
+    params: ProjectIdParam,
+    query: ImportQuerySchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: ImportCatalogSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ImportResultSchema } },
+      description: 'Changes applied, or with ?dryRun=true the changes that would be applied'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Catalog repeats an item id'
+    }
+  }
+})
+
+app.openapi(importCatalogRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { dryRun } = c.req.valid('query')
+  const catalog = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const { format, areas } = readCatalog(catalog)
+
+  const duplicates = duplicateItemIds(areas)
+  if (duplicates.length > 0) {
+    return c.json({ message: `Catalog repeats item ids: ${duplicates.join(', ')}` }, 400)
+  }
+
+  const plan = await planImport(db, projectId, areas, getActor(c))
+
+  // Categories, then the items that look them up, all in one atomic batch
+  if (!dryRun && plan.statements.length > 0) {
+    await batchWithEvents(db, projectId, plan.statements, plan.events)
+    await syncItemLines(db, projectId, getActor(c))
+    publishResync(c, projectId)
+  }
+
+  return c.json({
+    dryRun,
+    format,
+    created: countChanges(plan.changes, 'create'),
+    updated: countChanges(plan.changes, 'update'),
+    unchanged: plan.unchanged,
+    changes: plan.changes
+  }, 200)
+})
+
+export default app
@@ -1,22 +1,108 @@
-import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
 import { drizzle } from 'drizzle-orm/d1'
-import { items } from '../db/schema'
+import { items, categories, areas, itemEvents, attachments, TRADES } from '../db/schema'
 import * as schema from '../db/schema'
-import { eq } from 'drizzle-orm'
+import { eq, and, ne, asc, desc, inArray, isNull, isNotNull, lt, lte } from 'drizzle-orm'
+import { getActor, diffEvents, batchWithEvents, recordEventsWhere, encodeValue, serializeEvent, type ItemEventInput } from '../services/history'
+import { findBlockers } from '../services/dependencies'
+import {
+  updateItem,
+  deleteItem,
+  findItemWithContext,
+  radioUncheckStatements,
+  atVersion,
+  nextVersion
+} from '../services/items'
+import { removeStoredFiles } from '../services/attachments'
+import { categoryInProject } from '../services/projects'
+import { publishChanges, itemUpserts, itemDeletes } from '../services/sync'
+import { syncItemLines } from '../services/budget-links'
+import type { BatchItem } from 'drizzle-orm/batch'
 import { 
   ItemSchema, 
+  ItemStatusUpdateSchema,
   ErrorSchema, 
+  ProjectIdParam,
   ItemIdParam, 
   UpdateStatusSchema, 
-  UpdateNoteSchema 
+  UpdateNoteSchema,
+  UpdateItemSchema,
+  ItemConflictSchema,
+  ItemBlockedSchema,
+  MoveItemSchema,
+  ItemEventSchema,
+  PurgeItemsSchema,
+  PurgeResponseSchema,
+  UpcomingQuerySchema,
+  UpcomingGroupSchema
 } from '../zod'
 
 const app = new OpenAPIHono<{ Bindings: Env }>()
 
+// Update Item (partial, version-guarded)
+const updateItemRoute = createRoute({
+  method: 'patch',
+  path: '/api/projects/{projectId}/items/{id}',
+  operationId: 'updateItem',
+  request: {
+    params: ItemIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateItemSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ItemStatusUpdateSchema } },
+      description: 'Item updated, with every item whose state changed'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Invalid input'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Item or target category not found'
+    },
+    409: {
+      content: { 'application/json': { schema: z.union([ItemConflictSchema, ItemBlockedSchema]) } },
+      description: 'Item was changed since the client last read it, or has unchecked prerequisites'
+    }
+  }
+})
+
+app.openapi(updateItemRoute, async (c) => {
+  const { projectId, id } = c.req.valid('param')
+  const { version, force, ...changes } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (Object.keys(changes).length === 0) {
+    return c.json({ message: 'No fields to update' }, 400)
+  }
+
+  const result = await updateItem(db, projectId, id, version, changes, !!force, getActor(c))
+
+  if (result.status === 'notFound') return c.json({ message: result.message }, 404)
+  if (result.status === 'conflict') {
+    return c.json({ message: 'Item has changed since it was loaded', current: result.current }, 409)
+  }
+  if (result.status === 'blocked') {
+    return c.json({ message: 'Item has unchecked prerequisites', blockedBy: result.blockedBy }, 409)
+  }
+
+  publishChanges(c, projectId, result.sync)
+
+  const { item, changed, blockedBy } = result
+  return c.json({ item, changed: [item, ...changed.filter((row) => row.id !== id)], blockedBy }, 200)
+})
+
 // Update Item Status
 const updateItemStatusRoute = createRoute({
   method: 'patch',
-  path: '/api/items/{id}/status',
+  path: '/api/projects/{projectId}/items/{id}/status',
   operationId: 'updateItemStatus',
   request: {
     params: ItemIdParam,
@@ -30,37 +116,60 @@ const updateItemStatusRoute = createRoute({
   },
   responses: {
     200: {
-      content: { 'application/json': { schema: ItemSchema } },
-      description: 'Item status updated'
+      content: { 'application/json': { schema: ItemStatusUpdateSchema } },
+      description: 'Item status updated, with every item whose check state changed'
     },
     404: {
       content: { 'application/json': { schema: ErrorSchema } },
       description: 'Item not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ItemBlockedSchema } },
+      description: 'Item has unchecked prerequisites and force was not set'
     }
   }
 })
 
-import type { Context } from 'hono';
-
 app.openapi(updateItemStatusRoute, async (c) => {
-  const { id } = c.req.valid('param')
-  const { isChecked } = c.req.valid('json')
+  const { projectId, id } = c.req.valid('param')
+  const { isChecked, force } = c.req.valid('json')
   const db = drizzle(c.env.DB, { schema })
+  const actor = getActor(c)
 
-  const result = await db.update(items)
-    .set({ isChecked })
-    .where(eq(items.id, id))
-    .returning()
-    .get()
+  const existing = await findItemWithContext(db, projectId, id)
+  if (!existing) return c.json({ message: 'Item not found' }, 404)
+
+  const { item, areaId } = existing
+
+  const blockedBy = isChecked && !item.isChecked ? await findBlockers(db, id) : []
+  if (blockedBy.length > 0 && !force) {
+    return c.json({ message: 'Item has unchecked prerequisites', blockedBy }, 409)
+  }
+
+  // Radio categories allow a single selection: checking one unchecks its siblings in the same batch
+  const unchecks = isChecked && existing.type === 'radio'
+    ? radioUncheckStatements(db, projectId, { categoryId: item.categoryId, areaId }, id, actor)
+    : []
+
+  const results = await batchWithEvents(db, projectId, [
+    ...unchecks,
+    db.update(items).set({ isChecked, version: nextVersion }).where(eq(items.id, id)).returning()
+  ], diffEvents({ itemId: id, categoryId: item.categoryId, areaId, actor }, item, { isChecked }))
 
-  if (!result) return c.json({ message: 'Item not found' }, 404)
-  return c.json(result)
+  const unchecked = unchecks.length > 0 ? results[1] as typeof items.$inferSelect[] : []
+  const [updated] = results[unchecks.length] as typeof items.$inferSelect[]
+  const changed = [updated, ...unchecked]
+
+  await syncItemLines(db, projectId, actor, inArray(items.id, changed.map((row) => row.id)))
+
+  publishChanges(c, projectId, itemUpserts(areaId, changed))
+  return c.json({ item: updated, changed, blockedBy }, 200)
 })
 
 // Update Item Note
 const updateItemNoteRoute = createRoute({
   method: 'patch',
-  path: '/api/items/{id}/note',
+  path: '/api/projects/{projectId}/items/{id}/note',
   operationId: 'updateItemNote',
   request: {
     params: ItemIdParam,
@@ -85,24 +194,29 @@ const updateItemNoteRoute = createRoute({
 })
 
 app.openapi(updateItemNoteRoute, async (c) => {
-  const { id } = c.req.valid('param')
+  const { projectId, id } = c.req.valid('param')
   const { note } = c.req.valid('json')
   const db = drizzle(c.env.DB, { schema })
 
-  const result = await db.update(items)
-    .set({ note })
-    .where(eq(items.id, id))
-    .returning()
-    .get()
+  const existing = await findItemWithContext(db, projectId, id)
+  if (!existing) return c.json({ message: 'Item not found' }, 404)
 
-  if (!result) return c.json({ message: 'Item not found' }, 404)
-  return c.json(result)
+  const { item, areaId } = existing
+  const events = diffEvents({ itemId: id, categoryId: item.categoryId, areaId, actor: getActor(c) }, item, { note })
+
+  await batchWithEvents(db, projectId, [
+    db.update(items).set({ note, version: nextVersion }).where(eq(items.id, id))
+  ], events)
+
+  const result = await db.select().from(items).where(eq(items.id, id)).get()
+  publishChanges(c, projectId, itemUpserts(areaId, [result!]))
+  return c.json(result!, 200)
 })
 
 // Delete Item
 const deleteItemRoute = createRoute({
   method: 'delete',
-  path: '/api/items/{id}',
+  path: '/api/projects/{projectId}/items/{id}',
   operationId: 'deleteItem',
   request: {
     params: ItemIdParam
@@ -110,7 +224,7 @@ const deleteItemRoute = createRoute({
   responses: {
     200: {
       content: { 'application/json': { schema: ItemSchema.pick({ id: true }) } },
-      description: 'Item deleted'
+      description: 'Item moved to trash'
     },
     404: {
       content: { 'application/json': { schema: ErrorSchema } },
@@ -120,16 +234,339 @@ const deleteItemRoute = createRoute({
 })
 
 app.openapi(deleteItemRoute, async (c) => {
-  const { id } = c.req.valid('param')
+  const { projectId, id } = c.req.valid('param')
   const db = drizzle(c.env.DB, { schema })
 
-  const result = await db.delete(items)
-    .where(eq(items.id, id))
-    .returning({ id: items.id })
+  const result = await deleteItem(db, projectId, id, getActor(c))
+  if (result.status === 'notFound') return c.json({ message: result.message }, 404)
+
+  publishChanges(c, projectId, result.sync)
+  return c.json({ id }, 200)
+})
+
+// Restore Item from trash
+const restoreItemRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/items/{id}/restore',
+  operationId: 'restoreItem',
+  request: {
+    params: ItemIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ItemSchema } },
+      description: 'Item restored'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Deleted item not found'
+    }
+  }
+})
+
+app.openapi(restoreItemRoute, async (c) => {
+  const { projectId, id } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const existing = await findItemWithContext(db, projectId, id, true)
+  if (!existing) return c.json({ message: 'Deleted item not found' }, 404)
+
+  const { item, areaId } = existing
+
+  await batchWithEvents(db, projectId, [
+    db.update(items).set({ deletedAt: null, version: nextVersion }).where(eq(items.id, id))
+  ], [{
+    itemId: id,
+    categoryId: item.categoryId,
+    areaId,
+    actor: getActor(c),
+    action: 'restore',
+    newValue: encodeValue({ ...item, deletedAt: null })
+  }])
+
+  await syncItemLines(db, projectId, getActor(c), eq(items.id, id))
+
+  const result = await db.select().from(items).where(eq(items.id, id)).get()
+  publishChanges(c, projectId, itemUpserts(areaId, [result!]))
+  return c.json(result!, 200)
+})
+
+// Purge Items deleted more than N days ago
+const purgeItemsRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/items/purge',
+  operationId: 'purgeItems',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: PurgeItemsSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: PurgeResponseSchema } },
+      description: 'Ids of permanently deleted items'
+    }
+  }
+})
+
+app.openapi(purgeItemsRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { olderThanDays } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000)
+  const expired = await db.select({ id: items.id, categoryId: items.categoryId, areaId: categories.areaId })
+    .from(items)
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .where(and(categoryInProject(db, projectId), isNotNull(items.deletedAt), lt(items.deletedAt, cutoff)))
+    .all()
+
+  const ids = expired.map((row) => row.id)
+  if (ids.length === 0) return c.json({ ids }, 200)
+
+  // Attachment rows go with the items (FK cascade); their stored files are removed afterwards
+  const files = await db.select({ id: attachments.id, storage: attachments.storage })
+    .from(attachments)
+    .where(inArray(attachments.itemId, ids))
+    .all()
+
+  const actor = getActor(c)
+  await batchWithEvents(db, projectId, [
+    db.delete(items).where(inArray(items.id, ids))
+  ], expired.map((row) => ({
+    itemId: row.id,
+    categoryId: row.categoryId,
+    areaId: row.areaId,
+    actor,
+    action: 'purge' as const
+  })))
+
+  await removeStoredFiles(c.env, files)
+
+  publishChanges(c, projectId, expired.flatMap((row) => itemDeletes(row.areaId, [row.id])))
+  return c.json({ ids }, 200)
+})
+
+// Move Item (within or across categories)
+const moveItemRoute = createRoute({
+  method: 'put',
+  path: '/api/projects/{projectId}/items/{id}/position',
+  operationId: 'moveItem',
+  request: {
+    params: ItemIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: MoveItemSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ItemSchema } },
+      description: 'Item moved'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Item or target category not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ItemConflictSchema } },
+      description: 'Item was changed since the client last read it'
+    }
+  }
+})
+
+app.openapi(moveItemRoute, async (c) => {
+  const { projectId, id } = c.req.valid('param')
+  const { version, categoryId, index } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+  const actor = getActor(c)
+
+  const existing = await findItemWithContext(db, projectId, id)
+  if (!existing) return c.json({ message: 'Item not found' }, 404)
+
+  const { item } = existing
+  if (item.version !== version) {
+    return c.json({ message: 'Item has changed since it was loaded', current: item }, 409)
+  }
+
+  const category = await db.select({ id: categories.id, type: categories.type, areaId: categories.areaId })
+    .from(categories)
+    .where(and(eq(categories.id, categoryId), categoryInProject(db, projectId)))
     .get()
-  
-  if (!result) return c.json({ message: 'Item not found' }, 404)
-  return c.json(result)
+
+  if (!category) return c.json({ message: 'Category not found' }, 404)
+
+  // Siblings in the target category, without the moved item, in current order
+  const targetIds = (await db.select({ id: items.id })
+    .from(items)
+    .where(and(eq(items.categoryId, categoryId), ne(items.id, id), isNull(items.deletedAt)))
+    .orderBy(asc(items.sortOrder))
+    .all()).map((row) => row.id)
+
+  targetIds.splice(Math.min(index, targetIds.length), 0, id)
+  const sortOrder = targetIds.indexOf(id)
+
+  // As in PATCH /items/{id}: every other write waits on the version check, and a checked
+  // item moved into a radio category clears the selection already there
+  const unchanged = atVersion(db, id, version)
+  const unchecks = item.isChecked && category.type === 'radio'
+    ? radioUncheckStatements(db, projectId, { categoryId, areaId: category.areaId }, id, actor, unchanged)
+    : []
+  const statements: BatchItem<'sqlite'>[] = [
+    ...unchecks,
+    ...targetIds.filter((itemId) => itemId !== id).map((itemId) =>
+      db.update(items).set({ sortOrder: targetIds.indexOf(itemId), version: nextVersion }).where(and(eq(items.id, itemId), unchanged))
+    )
+  ]
+
+  // Close the gap left behind in the source category
+  if (item.categoryId !== categoryId) {
+    const sourceIds = (await db.select({ id: items.id })
+      .from(items)
+      .where(and(eq(items.categoryId, item.categoryId), ne(items.id, id), isNull(items.deletedAt)))
+      .orderBy(asc(items.sortOrder))
+      .all()).map((row) => row.id)
+
+    statements.push(...sourceIds.map((itemId, position) =>
+      db.update(items).set({ sortOrder: position, version: nextVersion }).where(and(eq(items.id, itemId), unchanged))
+    ))
+  }
+
+  statements.push(
+    ...recordEventsWhere(db, projectId, diffEvents(
+      { itemId: id, categoryId, areaId: category.areaId, actor },
+      item,
+      { categoryId, sortOrder }
+    ), unchanged),
+    db.update(items)
+      .set({ categoryId, sortOrder, version: nextVersion })
+      .where(and(eq(items.id, id), eq(items.version, version)))
+      .returning({ id: items.id })
+  )
+
+  const results = await db.batch(statements as [BatchItem<'sqlite'>, ...BatchItem<'sqlite'>[]])
+  if ((results.at(-1) as { id: string }[]).length === 0) {
+    const current = await db.select().from(items).where(eq(items.id, id)).get()
+    if (!current) return c.json({ message: 'Item not found' }, 404)
+    return c.json({ message: 'Item has changed since it was loaded', current }, 409)
+  }
+
+  const unchecked = unchecks.length > 0 ? results[1] as typeof items.$inferSelect[] : []
+  await syncItemLines(db, projectId, actor, inArray(items.id, [id, ...unchecked.map((row) => row.id)]))
+
+  // Every live item in the source and target categories may have a new sortOrder
+  const reordered = await db.select()
+    .from(items)
+    .where(and(inArray(items.categoryId, [...new Set([categoryId, item.categoryId])]), isNull(items.deletedAt)))
+    .all()
+
+  publishChanges(c, projectId, [
+    ...(category.areaId !== existing.areaId ? itemDeletes(existing.areaId, [id]) : []),
+    ...itemUpserts(category.areaId, reordered.filter((row) => row.categoryId === categoryId)),
+    ...itemUpserts(existing.areaId, reordered.filter((row) => row.categoryId !== categoryId))
+  ])
+
+  const result = reordered.find((row) => row.id === id)
+  return c.json(result!, 200)
+})
+
+// Upcoming Decisions: unchecked items overdue or due within `days`, grouped by trade
+const getUpcomingItemsRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/items/upcoming',
+  operationId: 'getUpcomingItems',
+  request: {
+    params: ProjectIdParam,
+    query: UpcomingQuerySchema
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(UpcomingGroupSchema) } },
+      description: 'Overdue and due-soon decisions per trade, in trade order'
+    }
+  }
+})
+
+app.openapi(getUpcomingItemsRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { days } = c.req.valid('query')
+  const db = drizzle(c.env.DB, { schema })
+
+  // Due dates are calendar dates, so compare as YYYY-MM-DD strings (UTC)
+  const today = new Date().toISOString().slice(0, 10)
+  const horizon = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+  const rows = await db.select({
+    item: items,
+    area: { id: areas.id, title: areas.title },
+    category: { id: categories.id, name: categories.name }
+  })
+    .from(items)
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .innerJoin(areas, eq(categories.areaId, areas.id))
+    .where(and(
+      eq(areas.projectId, projectId),
+      isNull(items.deletedAt),
+      eq(items.isChecked, false),
+      isNotNull(items.dueDate),
+      lte(items.dueDate, horizon)
+    ))
+    .orderBy(asc(items.dueDate), asc(areas.sortOrder), asc(categories.sortOrder), asc(items.sortOrder))
+    .all()
+
+  const entries = rows.map(({ item, area, category }) => ({ ...item, area, category }))
+  type Entry = (typeof entries)[number]
+
+  const groups = new Map<Entry['trade'], { trade: Entry['trade'], overdue: Entry[], dueSoon: Entry[] }>()
+  for (const entry of entries) {
+    const group = groups.get(entry.trade) ?? { trade: entry.trade, overdue: [], dueSoon: [] }
+    if (entry.dueDate! < today) group.overdue.push(entry)
+    else group.dueSoon.push(entry)
+    groups.set(entry.trade, group)
+  }
+
+  // Untagged items go last
+  const order = (trade: Entry['trade']) => (trade === null ? TRADES.length : TRADES.indexOf(trade))
+  const result = [...groups.values()].sort((a, b) => order(a.trade) - order(b.trade))
+
+  return c.json(result, 200)
+})
+
+// Item History (newest first). Works for deleted items too.
+const getItemHistoryRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/items/{id}/history',
+  operationId: 'getItemHistory',
+  request: {
+    params: ItemIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(ItemEventSchema) } },
+      description: 'Change events for the item'
+    }
+  }
+})
+
+app.openapi(getItemHistoryRoute, async (c) => {
+  const { projectId, id } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const rows = await db.select()
+    .from(itemEvents)
+    .where(and(eq(itemEvents.itemId, id), eq(itemEvents.projectId, projectId)))
+    .orderBy(desc(itemEvents.id))
+    .all()
+
+  return c.json(rows.map(serializeEvent), 200)
 })
 
 export default app
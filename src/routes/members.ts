@@ -0,0 +1,268 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle, type DrizzleD1Database } from 'drizzle-orm/d1'
+import { users, projectMembers, invites } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, asc, ne, isNull, gt } from 'drizzle-orm'
+import { newToken, hashToken } from '../services/auth'
+import {
+  MemberSchema,
+  InviteSchema,
+  InviteLinkSchema,
+  ErrorSchema,
+  UpdateMemberSchema,
+  CreateInviteSchema,
+  ProjectIdParam,
+  MemberParam,
+  InviteIdParam
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Whether anyone other than `userId` owns the project; the last owner can't leave or be demoted
+const hasOtherOwner = async (db: DrizzleD1Database<typeof schema>, projectId: string, userId: string) =>
+  !!(await db.select({ userId: projectMembers.userId })
+    .from(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.role, 'owner'), ne(projectMembers.userId, userId)))
+    .limit(1)
+    .get())
+
+const serializeInvite = ({ tokenHash, acceptedBy, acceptedAt, ...invite }: typeof invites.$inferSelect) => ({
+  ...invite,
+  expiresAt: invite.expiresAt.toISOString(),
+  createdAt: invite.createdAt.toISOString()
+})
+
+// List Members
+const listMembersRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/members',
+  operationId: 'listMembers',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(MemberSchema) } },
+      description: 'Project members and their roles, oldest first'
+    }
+  }
+})
+
+app.openapi(listMembersRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const rows = await db.select({ user: { id: users.id, name: users.name }, role: projectMembers.role, createdAt: projectMembers.createdAt })
+    .from(projectMembers)
+    .innerJoin(users, eq(projectMembers.userId, users.id))
+    .where(eq(projectMembers.projectId, projectId))
+    .orderBy(asc(projectMembers.createdAt))
+    .all()
+
+  return c.json(rows.map((row) => ({ ...row, createdAt: row.createdAt.toISOString() })), 200)
+})
+
+// Change a Member's Role
+const updateMemberRoute = createRoute({
+  method: 'patch',
+  path: '/api/projects/{projectId}/members/{userId}',
+  operationId: 'updateMember',
+  request: {
+    params: MemberParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateMemberSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: MemberSchema } },
+      description: 'Role changed'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Not a member'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Would leave the project without an owner'
+    }
+  }
+})
+
+app.openapi(updateMemberRoute, async (c) => {
+  const { projectId, userId } = c.req.valid('param')
+  const { role } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const match = and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId))
+  const existing = await db.select({ user: { id: users.id, name: users.name }, role: projectMembers.role, createdAt: projectMembers.createdAt })
+    .from(projectMembers)
+    .innerJoin(users, eq(projectMembers.userId, users.id))
+    .where(match)
+    .get()
+
+  if (!existing) return c.json({ message: 'Member not found' }, 404)
+
+  if (existing.role === 'owner' && role !== 'owner' && !await hasOtherOwner(db, projectId, userId)) {
+    return c.json({ message: 'A project needs at least one owner' }, 409)
+  }
+
+  await db.update(projectMembers).set({ role }).where(match)
+  return c.json({ ...existing, role, createdAt: existing.createdAt.toISOString() }, 200)
+})
+
+// Remove Member
+const removeMemberRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/members/{userId}',
+  operationId: 'removeMember',
+  request: {
+    params: MemberParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: MemberParam.pick({ userId: true }) } },
+      description: 'Member removed'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Not a member'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Would leave the project without an owner'
+    }
+  }
+})
+
+app.openapi(removeMemberRoute, async (c) => {
+  const { projectId, userId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const match = and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId))
+  const existing = await db.select({ role: projectMembers.role }).from(projectMembers).where(match).get()
+  if (!existing) return c.json({ message: 'Member not found' }, 404)
+
+  if (existing.role === 'owner' && !await hasOtherOwner(db, projectId, userId)) {
+    return c.json({ message: 'A project needs at least one owner' }, 409)
+  }
+
+  await db.delete(projectMembers).where(match)
+  return c.json({ userId }, 200)
+})
+
+// List pending Invites
+const listInvitesRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/invites',
+  operationId: 'listInvites',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(InviteSchema) } },
+      description: 'Unused, unexpired invites (tokens are not recoverable)'
+    }
+  }
+})
+
+app.openapi(listInvitesRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const rows = await db.select()
+    .from(invites)
+    .where(and(eq(invites.projectId, projectId), isNull(invites.acceptedAt), gt(invites.expiresAt, new Date())))
+    .orderBy(asc(invites.createdAt))
+    .all()
+
+  return c.json(rows.map(serializeInvite), 200)
+})
+
+// Create Invite link
+const createInviteRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/invites',
+  operationId: 'createInvite',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateInviteSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: InviteLinkSchema } },
+      description: 'Single-use invite; send the url to the person joining'
+    }
+  }
+})
+
+app.openapi(createInviteRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { role, expiresInDays } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const token = newToken()
+  const result = await db.insert(invites).values({
+    id: crypto.randomUUID(),
+    tokenHash: await hashToken(token),
+    projectId,
+    role,
+    createdBy: c.get('user').id,
+    expiresAt: new Date(Date.now() + expiresInDays * DAY_MS)
+  }).returning().get()
+
+  return c.json({
+    ...serializeInvite(result),
+    token,
+    url: new URL(`/api/invites/${token}`, c.req.url).toString()
+  }, 201)
+})
+
+// Revoke Invite
+const revokeInviteRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/invites/{inviteId}',
+  operationId: 'revokeInvite',
+  request: {
+    params: InviteIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: InviteIdParam.pick({ inviteId: true }) } },
+      description: 'Invite revoked'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'No pending invite with that id'
+    }
+  }
+})
+
+app.openapi(revokeInviteRoute, async (c) => {
+  const { projectId, inviteId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const deleted = await db.delete(invites)
+    .where(and(eq(invites.id, inviteId), eq(invites.projectId, projectId), isNull(invites.acceptedAt)))
+    .returning({ id: invites.id })
+    .get()
+
+  if (!deleted) return c.json({ message: 'Invite not found' }, 404)
+
+  return c.json({ inviteId }, 200)
+})
+
+export default app
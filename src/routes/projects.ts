@@ -0,0 +1,200 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { projects, projectMembers, areas, budgetItems } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, asc } from 'drizzle-orm'
+import {
+  ProjectSchema,
+  ProjectWithRoleSchema,
+  ErrorSchema,
+  CreateProjectSchema,
+  UpdateProjectSchema,
+  ProjectIdParam
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// List Projects the caller belongs to
+const listProjectsRoute = createRoute({
+  method: 'get',
+  path: '/api/projects',
+  operationId: 'listProjects',
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(ProjectWithRoleSchema) } },
+      description: 'Projects with the caller\'s role, oldest first'
+    }
+  }
+})
+
+app.openapi(listProjectsRoute, async (c) => {
+  const db = drizzle(c.env.DB, { schema })
+  const result = await db.select({ project: projects, role: projectMembers.role })
+    .from(projectMembers)
+    .innerJoin(projects, eq(projectMembers.projectId, projects.id))
+    .where(eq(projectMembers.userId, c.get('user').id))
+    .orderBy(asc(projects.createdAt))
+    .all()
+
+  return c.json(result.map(({ project, role }) => ({ ...project, role })), 200)
+})
+
+// Create Project (the caller becomes its owner)
+const createProjectRoute = createRoute({
+  method: 'post',
+  path: '/api/projects',
+  operationId: 'createProject',
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateProjectSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: ProjectSchema } },
+      description: 'Project created'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Project id already exists'
+    }
+  }
+})
+
+app.openapi(createProjectRoute, async (c) => {
+  const { id, name } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const projectId = id || name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+
+  const existing = await db.select({ id: projects.id }).from(projects).where(eq(projects.id, projectId)).get()
+  if (existing) return c.json({ message: `Project '${projectId}' already exists` }, 409)
+
+  const [[result]] = await db.batch([
+    db.insert(projects).values({ id: projectId, name }).returning(),
+    db.insert(projectMembers).values({ projectId, userId: c.get('user').id, role: 'owner' })
+  ])
+  return c.json(result, 201)
+})
+
+// Get Project
+const getProjectRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}',
+  operationId: 'getProject',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ProjectWithRoleSchema } },
+      description: 'Project with the caller\'s role'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Project not found'
+    }
+  }
+})
+
+app.openapi(getProjectRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const result = await db.select().from(projects).where(eq(projects.id, projectId)).get()
+  if (!result) return c.json({ message: 'Project not found' }, 404)
+
+  return c.json({ ...result, role: c.get('role') }, 200)
+})
+
+// Rename Project
+const updateProjectRoute = createRoute({
+  method: 'patch',
+  path: '/api/projects/{projectId}',
+  operationId: 'updateProject',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateProjectSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ProjectSchema } },
+      description: 'Project updated'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Project not found'
+    }
+  }
+})
+
+app.openapi(updateProjectRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { name } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const result = await db.update(projects)
+    .set({ name })
+    .where(eq(projects.id, projectId))
+    .returning()
+    .get()
+
+  if (!result) return c.json({ message: 'Project not found' }, 404)
+
+  return c.json(result, 200)
+})
+
+// Delete Project (must be empty)
+const deleteProjectRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}',
+  operationId: 'deleteProject',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ProjectIdParam } },
+      description: 'Project deleted'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Project not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Project still has areas or budget items'
+    }
+  }
+})
+
+app.openapi(deleteProjectRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const project = await db.select({ id: projects.id }).from(projects).where(eq(projects.id, projectId)).get()
+  if (!project) return c.json({ message: 'Project not found' }, 404)
+
+  // Deleting a whole remodel is rare enough to require emptying it first (areas support ?cascade)
+  const area = await db.select({ id: areas.id }).from(areas).where(eq(areas.projectId, projectId)).limit(1).get()
+  const budgetItem = await db.select({ id: budgetItems.id }).from(budgetItems).where(eq(budgetItems.projectId, projectId)).limit(1).get()
+  if (area || budgetItem) {
+    return c.json({ message: 'Project still has areas or budget items; delete them first' }, 409)
+  }
+
+  // Members and invites cascade with the project
+  await db.delete(projects).where(eq(projects.id, projectId))
+  return c.json({ projectId }, 200)
+})
+
+export default app
@@ -0,0 +1,263 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { budgetItems, quotes } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and } from 'drizzle-orm'
+import { getActor } from '../services/history'
+import { INITIAL_STATUSES } from '../services/budget-status'
+import { getQuotes, compareQuotes, acceptQuote, serializeQuote } from '../services/quotes'
+import {
+  BudgetItemSchema,
+  QuoteSchema,
+  QuoteComparisonSchema,
+  ErrorSchema,
+  CreateQuoteSchema,
+  UpdateQuoteSchema,
+  BudgetItemIdParam,
+  QuoteIdParam
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// List Quotes for a Budget Item
+const listQuotesRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}/quotes',
+  operationId: 'listQuotes',
+  request: {
+    params: BudgetItemIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(QuoteSchema) } },
+      description: 'Quotes for the line, cheapest first'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Budget item not found'
+    }
+  }
+})
+
+app.openapi(listQuotesRoute, async (c) => {
+  const { projectId, budgetItemId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const line = await db.select({ id: budgetItems.id })
+    .from(budgetItems)
+    .where(and(eq(budgetItems.id, budgetItemId), eq(budgetItems.projectId, projectId)))
+    .get()
+  if (!line) return c.json({ message: 'Budget item not found' }, 404)
+
+  return c.json(await getQuotes(db, budgetItemId), 200)
+})
+
+// Compare Quotes side by side
+const compareQuotesRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}/quotes/compare',
+  operationId: 'compareQuotes',
+  request: {
+    params: BudgetItemIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: QuoteComparisonSchema } },
+      description: 'Quotes ranked by completeness and price, with what each one leaves out'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Budget item not found'
+    }
+  }
+})
+
+app.openapi(compareQuotesRoute, async (c) => {
+  const { projectId, budgetItemId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const line = await db.select()
+    .from(budgetItems)
+    .where(and(eq(budgetItems.id, budgetItemId), eq(budgetItems.projectId, projectId)))
+    .get()
+  if (!line) return c.json({ message: 'Budget item not found' }, 404)
+
+  return c.json(await compareQuotes(db, line), 200)
+})
+
+// Add Quote to Budget Item
+const createQuoteRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}/quotes',
+  operationId: 'createQuote',
+  request: {
+    params: BudgetItemIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateQuoteSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: QuoteSchema } },
+      description: 'Quote added'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Budget item not found'
+    }
+  }
+})
+
+app.openapi(createQuoteRoute, async (c) => {
+  const { projectId, budgetItemId } = c.req.valid('param')
+  const body = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const line = await db.select({ id: budgetItems.id })
+    .from(budgetItems)
+    .where(and(eq(budgetItems.id, budgetItemId), eq(budgetItems.projectId, projectId)))
+    .get()
+  if (!line) return c.json({ message: 'Budget item not found' }, 404)
+
+  const result = await db.insert(quotes)
+    .values({ id: crypto.randomUUID(), budgetItemId, ...body })
+    .returning()
+    .get()
+
+  return c.json(serializeQuote(result), 201)
+})
+
+// Update Quote
+const updateQuoteRoute = createRoute({
+  method: 'patch',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}/quotes/{quoteId}',
+  operationId: 'updateQuote',
+  request: {
+    params: QuoteIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateQuoteSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: QuoteSchema } },
+      description: 'Quote updated. Accept it again to carry a new amount to the line'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Quote not found'
+    }
+  }
+})
+
+app.openapi(updateQuoteRoute, async (c) => {
+  const { projectId, budgetItemId, quoteId } = c.req.valid('param')
+  const updates = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const existing = await db.select({ quote: quotes })
+    .from(quotes)
+    .innerJoin(budgetItems, eq(quotes.budgetItemId, budgetItems.id))
+    .where(and(eq(quotes.id, quoteId), eq(quotes.budgetItemId, budgetItemId), eq(budgetItems.projectId, projectId)))
+    .get()
+  if (!existing) return c.json({ message: 'Quote not found' }, 404)
+
+  if (Object.keys(updates).length === 0) return c.json(serializeQuote(existing.quote), 200)
+
+  const result = await db.update(quotes)
+    .set(updates)
+    .where(eq(quotes.id, quoteId))
+    .returning()
+    .get()
+
+  return c.json(serializeQuote(result!), 200)
+})
+
+// Delete Quote (the line keeps its cost if this was the accepted one)
+const deleteQuoteRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}/quotes/{quoteId}',
+  operationId: 'deleteQuote',
+  request: {
+    params: QuoteIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: QuoteIdParam.pick({ quoteId: true }) } },
+      description: 'Quote deleted'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Quote not found'
+    }
+  }
+})
+
+app.openapi(deleteQuoteRoute, async (c) => {
+  const { projectId, budgetItemId, quoteId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const existing = await db.select({ id: quotes.id })
+    .from(quotes)
+    .innerJoin(budgetItems, eq(quotes.budgetItemId, budgetItems.id))
+    .where(and(eq(quotes.id, quoteId), eq(quotes.budgetItemId, budgetItemId), eq(budgetItems.projectId, projectId)))
+    .get()
+  if (!existing) return c.json({ message: 'Quote not found' }, 404)
+
+  await db.delete(quotes).where(eq(quotes.id, quoteId))
+
+  return c.json({ quoteId }, 200)
+})
+
+// Accept Quote (sets the line's cost and variance)
+const acceptQuoteRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/budget/items/{budgetItemId}/quotes/{quoteId}/accept',
+  operationId: 'acceptQuote',
+  request: {
+    params: QuoteIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: BudgetItemSchema } },
+      description: 'Quote accepted; returns the updated budget item'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Quote not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Budget item is already ordered or cancelled'
+    }
+  }
+})
+
+app.openapi(acceptQuoteRoute, async (c) => {
+  const { projectId, budgetItemId, quoteId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const existing = await db.select({ quote: quotes, line: budgetItems })
+    .from(quotes)
+    .innerJoin(budgetItems, eq(quotes.budgetItemId, budgetItems.id))
+    .where(and(eq(quotes.id, quoteId), eq(quotes.budgetItemId, budgetItemId), eq(budgetItems.projectId, projectId)))
+    .get()
+  if (!existing) return c.json({ message: 'Quote not found' }, 404)
+
+  // Once ordered, the price is whatever the order was placed at
+  if (!INITIAL_STATUSES.includes(existing.line.status)) {
+    return c.json({ message: `Budget item is ${existing.line.status}; quotes can only be accepted before ordering` }, 409)
+  }
+
+  return c.json(await acceptQuote(db, existing.line, existing.quote, getActor(c)), 200)
+})
+
+export default app
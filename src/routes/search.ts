@@ -0,0 +1,70 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { items, categories, areas } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, asc, gte, lte, isNull, isNotNull, ne, or, sql } from 'drizzle-orm'
+import { SearchQuerySchema, ItemWithBreadcrumbsSchema, ProjectIdParam } from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// Turn free text into an FTS5 query: every word must match as a prefix.
+// Quoting each token keeps input like `20A` or `GFCI-protected` from being parsed as FTS syntax.
+const toFtsQuery = (q: string) =>
+  q.split(/\s+/)
+    .map((token) => token.replace(/"/g, ''))
+    .filter(Boolean)
+    .map((token) => `"${token}"*`)
+    .join(' ')
+
+// Search Items
+const searchItemsRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/items/search',
+  operationId: 'searchItems',
+  request: {
+    params: ProjectIdParam,
+    query: SearchQuerySchema
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(ItemWithBreadcrumbsSchema) } },
+      description: 'Matching items with their area and category breadcrumbs'
+    }
+  }
+})
+
+app.openapi(searchItemsRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { q, areaId, categoryId, isChecked, hasNote, minPrice, maxPrice, limit } = c.req.valid('query')
+  const db = drizzle(c.env.DB, { schema })
+
+  const ftsQuery = q ? toFtsQuery(q) : ''
+
+  const rows = await db.select({
+    item: items,
+    area: { id: areas.id, title: areas.title },
+    category: { id: categories.id, name: categories.name }
+  })
+    .from(items)
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .innerJoin(areas, eq(categories.areaId, areas.id))
+    .where(and(
+      eq(areas.projectId, projectId),
+      isNull(items.deletedAt),
+      ftsQuery ? sql`${items.id} IN (SELECT item_id FROM items_fts WHERE items_fts MATCH ${ftsQuery})` : undefined,
+      areaId ? eq(categories.areaId, areaId) : undefined,
+      categoryId !== undefined ? eq(items.categoryId, categoryId) : undefined,
+      isChecked !== undefined ? eq(items.isChecked, isChecked) : undefined,
+      hasNote === true ? and(isNotNull(items.note), ne(items.note, '')) : undefined,
+      hasNote === false ? or(isNull(items.note), eq(items.note, '')) : undefined,
+      minPrice !== undefined ? gte(items.price, minPrice) : undefined,
+      maxPrice !== undefined ? lte(items.price, maxPrice) : undefined
+    ))
+    .orderBy(asc(areas.sortOrder), asc(categories.sortOrder), asc(items.sortOrder))
+    .limit(limit)
+    .all()
+
+  return c.json(rows.map(({ item, area, category }) => ({ ...item, area, category })), 200)
+})
+
+export default app
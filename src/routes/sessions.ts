@@ -0,0 +1,93 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { projects, projectMembers, sessions } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, asc } from 'drizzle-orm'
+import { createSession, clearSessionCookie } from '../services/auth'
+import { MeSchema, SessionSchema, CreateSessionSchema } from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// Current User and their projects
+const getMeRoute = createRoute({
+  method: 'get',
+  path: '/api/auth/me',
+  operationId: 'getMe',
+  responses: {
+    200: {
+      content: { 'application/json': { schema: MeSchema } },
+      description: 'Signed-in user with the projects they belong to and their role in each'
+    }
+  }
+})
+
+app.openapi(getMeRoute, async (c) => {
+  const user = c.get('user')
+  const db = drizzle(c.env.DB, { schema })
+
+  const memberships = await db.select({ project: projects, role: projectMembers.role })
+    .from(projectMembers)
+    .innerJoin(projects, eq(projectMembers.projectId, projects.id))
+    .where(eq(projectMembers.userId, user.id))
+    .orderBy(asc(projects.createdAt))
+    .all()
+
+  return c.json({
+    user,
+    projects: memberships.map(({ project, role }) => ({ ...project, createdAt: project.createdAt.toISOString(), role }))
+  }, 200)
+})
+
+// Sign in another device: issue an extra token for the current user
+const createSessionRoute = createRoute({
+  method: 'post',
+  path: '/api/auth/sessions',
+  operationId: 'createSession',
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateSessionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: SessionSchema } },
+      description: 'New bearer token for the same user'
+    }
+  }
+})
+
+app.openapi(createSessionRoute, async (c) => {
+  const { label } = c.req.valid('json')
+  const user = c.get('user')
+  const db = drizzle(c.env.DB, { schema })
+
+  const session = await createSession(db, user.id, label ?? null)
+  return c.json({ user, token: session.token, expiresAt: session.expiresAt.toISOString() }, 201)
+})
+
+// Sign out: revoke the token this request was made with
+const deleteSessionRoute = createRoute({
+  method: 'delete',
+  path: '/api/auth/session',
+  operationId: 'deleteSession',
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.object({ signedOut: z.boolean() }) } },
+      description: 'Token revoked'
+    }
+  }
+})
+
+app.openapi(deleteSessionRoute, async (c) => {
+  const db = drizzle(c.env.DB, { schema })
+  await db.delete(sessions).where(eq(sessions.tokenHash, c.get('sessionHash')))
+  clearSessionCookie(c)
+
+  return c.json({ signedOut: true }, 200)
+})
+
+export default app
@@ -0,0 +1,222 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { areas, categories, shareLinks, systemLogs } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, desc, inArray, isNull, sql } from 'drizzle-orm'
+import { signShareLink } from '../services/share-links'
+import { categoryInProject } from '../services/projects'
+import {
+  ShareLinkSchema,
+  ShareLinkAccessSchema,
+  ErrorSchema,
+  CreateShareLinkSchema,
+  ProjectIdParam,
+  ShareLinkIdParam
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Serialized link with its page url, which is only handed out while the link still works
+const serializeShareLink = async (env: Env, requestUrl: string, link: typeof shareLinks.$inferSelect) => {
+  const active = !link.revokedAt && link.expiresAt > new Date() && !!env.SHARE_LINK_SECRET
+  return {
+    ...link,
+    expiresAt: link.expiresAt.toISOString(),
+    revokedAt: link.revokedAt?.toISOString() ?? null,
+    createdAt: link.createdAt.toISOString(),
+    url: active ? new URL(`/share/${await signShareLink(env.SHARE_LINK_SECRET, link.id, link.expiresAt)}`, requestUrl).toString() : null
+  }
+}
+
+// List Share Links
+const listShareLinksRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/share-links',
+  operationId: 'listShareLinks',
+  request: {
+    params: ProjectIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(ShareLinkSchema) } },
+      description: 'All share links, including revoked and expired ones, newest first'
+    }
+  }
+})
+
+app.openapi(listShareLinksRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const rows = await db.select()
+    .from(shareLinks)
+    .where(eq(shareLinks.projectId, projectId))
+    .orderBy(desc(shareLinks.createdAt))
+    .all()
+
+  return c.json(await Promise.all(rows.map((row) => serializeShareLink(c.env, c.req.url, row))), 200)
+})
+
+// Create Share Link
+const createShareLinkRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/share-links',
+  operationId: 'createShareLink',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateShareLinkSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: ShareLinkSchema } },
+      description: 'Signed, expiring read-only link; anyone holding the url can open it'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'An area or category filter is not in this project'
+    },
+    503: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'SHARE_LINK_SECRET is not configured'
+    }
+  }
+})
+
+app.openapi(createShareLinkRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { label, areaIds, categoryIds, trades, showPrices, expiresInDays } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (!c.env.SHARE_LINK_SECRET) return c.json({ message: 'Share links are not configured' }, 503)
+
+  if (areaIds) {
+    const found = await db.select({ id: areas.id })
+      .from(areas)
+      .where(and(eq(areas.projectId, projectId), inArray(areas.id, areaIds)))
+      .all()
+    const unknown = areaIds.filter((id) => !found.some((area) => area.id === id))
+    if (unknown.length > 0) return c.json({ message: `Unknown areas: ${unknown.join(', ')}` }, 400)
+  }
+
+  if (categoryIds) {
+    const found = await db.select({ id: categories.id })
+      .from(categories)
+      .where(and(inArray(categories.id, categoryIds), categoryInProject(db, projectId)))
+      .all()
+    const unknown = categoryIds.filter((id) => !found.some((category) => category.id === id))
+    if (unknown.length > 0) return c.json({ message: `Unknown categories: ${unknown.join(', ')}` }, 400)
+  }
+
+  const link = await db.insert(shareLinks).values({
+    id: crypto.randomUUID(),
+    projectId,
+    label,
+    areaIds: areaIds ? [...new Set(areaIds)] : null,
+    categoryIds: categoryIds ? [...new Set(categoryIds)] : null,
+    trades: trades ? [...new Set(trades)] : null,
+    showPrices,
+    createdBy: c.get('user').id,
+    // Whole seconds, since that's what the token carries
+    expiresAt: new Date(Math.floor((Date.now() + expiresInDays * DAY_MS) / 1000) * 1000)
+  }).returning().get()
+
+  return c.json(await serializeShareLink(c.env, c.req.url, link), 201)
+})
+
+// Revoke Share Link (kept for its access log)
+const revokeShareLinkRoute = createRoute({
+  method: 'delete',
+  path: '/api/projects/{projectId}/share-links/{shareLinkId}',
+  operationId: 'revokeShareLink',
+  request: {
+    params: ShareLinkIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: ShareLinkSchema } },
+      description: 'Link revoked; its url stops working immediately'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'No active share link with that id'
+    }
+  }
+})
+
+app.openapi(revokeShareLinkRoute, async (c) => {
+  const { projectId, shareLinkId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const revoked = await db.update(shareLinks)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(shareLinks.id, shareLinkId), eq(shareLinks.projectId, projectId), isNull(shareLinks.revokedAt)))
+    .returning()
+    .get()
+
+  if (!revoked) return c.json({ message: 'Share link not found' }, 404)
+
+  return c.json(await serializeShareLink(c.env, c.req.url, revoked), 200)
+})
+
+// Share Link access log
+const getShareLinkAccessRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/share-links/{shareLinkId}/access',
+  operationId: 'getShareLinkAccess',
+  request: {
+    params: ShareLinkIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(ShareLinkAccessSchema) } },
+      description: 'Views and refused attempts (revoked or expired), newest first, up to 200'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Share link not found'
+    }
+  }
+})
+
+app.openapi(getShareLinkAccessRoute, async (c) => {
+  const { projectId, shareLinkId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const link = await db.select({ id: shareLinks.id })
+    .from(shareLinks)
+    .where(and(eq(shareLinks.id, shareLinkId), eq(shareLinks.projectId, projectId)))
+    .get()
+  if (!link) return c.json({ message: 'Share link not found' }, 404)
+
+  // Written by the Logger in routes/share.ts
+  const rows = await db.select()
+    .from(systemLogs)
+    .where(and(
+      eq(systemLogs.component, 'ShareLinks'),
+      sql`json_extract(${systemLogs.metadata}, '$.shareLinkId') = ${shareLinkId}`
+    ))
+    .orderBy(desc(systemLogs.createdAt), desc(systemLogs.id))
+    .limit(200)
+    .all()
+
+  return c.json(rows.map((row) => {
+    const metadata = row.metadata ? JSON.parse(row.metadata) : {}
+    return {
+      level: row.level,
+      message: row.message,
+      ip: metadata.ip ?? null,
+      userAgent: metadata.userAgent ?? null,
+      createdAt: row.createdAt.toISOString()
+    }
+  }), 200)
+})
+
+export default app
@@ -0,0 +1,80 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import { projects, shareLinks } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq } from 'drizzle-orm'
+import { verifyShareToken, loadSharedChecklist } from '../services/share-links'
+import { toHtml } from '../services/export'
+import { Logger } from '../services/logger'
+import { ShareTokenParam } from '../zod'
+
+// Public: src/index.ts mounts this app ahead of requireAuth; the signed token is the credential
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// Read-only checklist page for a share link
+const viewShareLinkRoute = createRoute({
+  method: 'get',
+  path: '/share/{token}',
+  operationId: 'viewShareLink',
+  security: [],
+  request: {
+    params: ShareTokenParam
+  },
+  responses: {
+    200: {
+      description: 'Printable text/html page with the items the link covers; prices only if the link shows them'
+    },
+    404: {
+      description: 'Link unknown, tampered with or revoked'
+    },
+    410: {
+      description: 'Link expired'
+    }
+  }
+})
+
+app.openapi(viewShareLinkRoute, async (c) => {
+  const { token } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+  const logger = new Logger(c.env, 'ShareLinks')
+
+  const signed = c.env.SHARE_LINK_SECRET ? await verifyShareToken(c.env.SHARE_LINK_SECRET, token) : null
+  if (!signed) return c.text('This link is not valid.', 404)
+
+  const found = await db.select({ link: shareLinks, projectName: projects.name })
+    .from(shareLinks)
+    .innerJoin(projects, eq(shareLinks.projectId, projects.id))
+    .where(eq(shareLinks.id, signed.id))
+    .get()
+  if (!found || found.link.expiresAt.getTime() !== signed.expiresAt.getTime()) return c.text('This link is not valid.', 404)
+
+  const { link, projectName } = found
+  const access = {
+    shareLinkId: link.id,
+    projectId: link.projectId,
+    ip: c.req.header('CF-Connecting-IP') ?? null,
+    userAgent: c.req.header('User-Agent') ?? null
+  }
+
+  if (link.revokedAt) {
+    await logger.warn('Refused revoked share link', access)
+    return c.text('This link has been revoked.', 404)
+  }
+  if (link.expiresAt <= new Date()) {
+    await logger.warn('Refused expired share link', access)
+    return c.text('This link has expired.', 410)
+  }
+
+  await logger.info('Share link viewed', access)
+
+  const sharedAreas = await loadSharedChecklist(db, link)
+  return new Response(toHtml(sharedAreas, new Date(), `${projectName}: ${link.label}`), {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'private, no-store',
+      'X-Robots-Tag': 'noindex'
+    }
+  })
+})
+
+export default app
@@ -0,0 +1,76 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { drizzle } from 'drizzle-orm/d1'
+import * as schema from '../db/schema'
+import { getActor } from '../services/history'
+import { loadChanges, applyMutations } from '../services/offline-sync'
+import { publishChanges } from '../services/sync'
+import {
+  ProjectIdParam,
+  SyncQuerySchema,
+  SyncResponseSchema,
+  SyncPushSchema,
+  SyncPushResultSchema
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// Pull changes since a cursor
+const pullChangesRoute = createRoute({
+  method: 'get',
+  path: '/api/projects/{projectId}/sync',
+  operationId: 'pullChanges',
+  request: {
+    params: ProjectIdParam,
+    query: SyncQuerySchema
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: SyncResponseSchema } },
+      description: 'Areas, categories and items changed or deleted after the cursor, oldest first. Keep pulling while hasMore'
+    }
+  }
+})
+
+app.openapi(pullChangesRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { since, limit } = c.req.valid('query')
+  const db = drizzle(c.env.DB, { schema })
+
+  return c.json(await loadChanges(db, projectId, since, limit), 200)
+})
+
+// Push queued offline mutations
+const pushChangesRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/sync',
+  operationId: 'pushChanges',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: SyncPushSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: SyncPushResultSchema } },
+      description: 'One result per mutation, in order, with any field conflicts and who won them'
+    }
+  }
+})
+
+app.openapi(pushChangesRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { mutations } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const { results, sync } = await applyMutations(db, projectId, mutations, getActor(c))
+  publishChanges(c, projectId, sync)
+
+  return c.json({ results }, 200)
+})
+
+export default app
@@ -0,0 +1,379 @@
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+import { drizzle, type DrizzleD1Database } from 'drizzle-orm/d1'
+import { areas, templates } from '../db/schema'
+import * as schema from '../db/schema'
+import { eq, and, asc, desc, inArray } from 'drizzle-orm'
+import { getActor, batchWithEvents } from '../services/history'
+import { memberRole, can } from '../services/auth'
+import { publishResync } from '../services/sync'
+import {
+  BUILT_IN_TEMPLATES,
+  findBuiltIn,
+  serializeTemplate,
+  summarizeTemplate,
+  templateCounts,
+  snapshotChecklist,
+  instantiateStatements,
+  templateVisibleTo
+} from '../services/templates'
+import {
+  TemplateSchema,
+  TemplateSummarySchema,
+  InstantiateResultSchema,
+  ErrorSchema,
+  CreateTemplateSchema,
+  SnapshotTemplateSchema,
+  UpdateTemplateSchema,
+  InstantiateTemplateSchema,
+  TemplateIdParam,
+  ProjectIdParam,
+  ProjectTemplateParam
+} from '../zod'
+
+const app = new OpenAPIHono<{ Bindings: Env }>()
+
+// Slug a template name the way decisions are slugged ('Bungalow 2025' -> 'bungalow-2025')
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+
+// Changing a saved template takes the same role as saving one in its project.
+// Templates the caller can't see are not found, so their ids don't leak.
+async function changeProblem(db: DrizzleD1Database<typeof schema>, templateId: string, userId: string) {
+  const template = await db.select({ projectId: templates.projectId })
+    .from(templates)
+    .where(and(eq(templates.id, templateId), templateVisibleTo(db, userId)))
+    .get()
+  if (!template) return { status: 404 as const, message: 'Template not found' }
+
+  const role = await memberRole(db, template.projectId!, userId)
+  if (!role || !can(role, 'edit')) return { status: 403 as const, message: `The ${role} role cannot change this template` }
+  return null
+}
+
+// List Templates (built-ins first, then those of the caller's projects)
+const listTemplatesRoute = createRoute({
+  method: 'get',
+  path: '/api/templates',
+  operationId: 'listTemplates',
+  responses: {
+    200: {
+      content: { 'application/json': { schema: z.array(TemplateSummarySchema) } },
+      description: "Built-in templates and those saved in the caller's projects, without their structure"
+    }
+  }
+})
+
+app.openapi(listTemplatesRoute, async (c) => {
+  const db = drizzle(c.env.DB, { schema })
+  const saved = await db.select()
+    .from(templates)
+    .where(templateVisibleTo(db, c.get('user').id))
+    .orderBy(asc(templates.name))
+    .all()
+
+  return c.json([
+    ...BUILT_IN_TEMPLATES.map(summarizeTemplate),
+    ...saved.map((row) => summarizeTemplate(serializeTemplate(row)))
+  ], 200)
+})
+
+// Get Template
+const getTemplateRoute = createRoute({
+  method: 'get',
+  path: '/api/templates/{templateId}',
+  operationId: 'getTemplate',
+  request: {
+    params: TemplateIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: TemplateSchema } },
+      description: 'Template with its areas, categories and default items'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Template not found'
+    }
+  }
+})
+
+app.openapi(getTemplateRoute, async (c) => {
+  const { templateId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  const builtIn = findBuiltIn(templateId)
+  if (builtIn) return c.json(builtIn, 200)
+
+  const row = await db.select()
+    .from(templates)
+    .where(and(eq(templates.id, templateId), templateVisibleTo(db, c.get('user').id)))
+    .get()
+  if (!row) return c.json({ message: 'Template not found' }, 404)
+
+  return c.json(serializeTemplate(row), 200)
+})
+
+// Create Template from an explicit structure
+const createTemplateRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/templates',
+  operationId: 'createTemplate',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateTemplateSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: TemplateSchema } },
+      description: 'Template saved'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Template id already exists'
+    }
+  }
+})
+
+app.openapi(createTemplateRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { id, name, description, areas: templateAreas } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const templateId = id || slugify(name)
+  const existing = findBuiltIn(templateId)
+    ?? await db.select({ id: templates.id }).from(templates).where(eq(templates.id, templateId)).get()
+  if (existing) return c.json({ message: `Template '${templateId}' already exists` }, 409)
+
+  const result = await db.insert(templates)
+    .values({ id: templateId, projectId, name, description: description ?? null, areas: templateAreas })
+    .returning()
+    .get()
+
+  return c.json(serializeTemplate(result), 201)
+})
+
+// Save the current checklist structure as a Template
+const snapshotTemplateRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/templates/from-checklist',
+  operationId: 'createTemplateFromChecklist',
+  request: {
+    params: ProjectIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: SnapshotTemplateSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: TemplateSchema } },
+      description: 'Template saved from the live checklist (no check state or notes)'
+    },
+    400: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'No matching areas'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Template id already exists'
+    }
+  }
+})
+
+app.openapi(snapshotTemplateRoute, async (c) => {
+  const { projectId } = c.req.valid('param')
+  const { id, name, description, areaIds } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const templateId = id || slugify(name)
+  const existing = findBuiltIn(templateId)
+    ?? await db.select({ id: templates.id }).from(templates).where(eq(templates.id, templateId)).get()
+  if (existing) return c.json({ message: `Template '${templateId}' already exists` }, 409)
+
+  const templateAreas = await snapshotChecklist(db, projectId, areaIds)
+  if (templateAreas.length === 0) return c.json({ message: 'No matching areas to save' }, 400)
+
+  const result = await db.insert(templates)
+    .values({ id: templateId, projectId, name, description: description ?? null, areas: templateAreas })
+    .returning()
+    .get()
+
+  return c.json(serializeTemplate(result), 201)
+})
+
+// Update Template
+const updateTemplateRoute = createRoute({
+  method: 'patch',
+  path: '/api/templates/{templateId}',
+  operationId: 'updateTemplate',
+  request: {
+    params: TemplateIdParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateTemplateSchema
+        }
+      }
+    }
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: TemplateSchema } },
+      description: 'Template updated'
+    },
+    403: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: "Built-in templates are read-only, and saved ones need an owner or editor of the template's project"
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Template not found'
+    }
+  }
+})
+
+app.openapi(updateTemplateRoute, async (c) => {
+  const { templateId } = c.req.valid('param')
+  const updates = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (findBuiltIn(templateId)) {
+    return c.json({ message: 'Built-in templates are read-only; save a copy instead' }, 403)
+  }
+
+  const problem = await changeProblem(db, templateId, c.get('user').id)
+  if (problem) return c.json({ message: problem.message }, problem.status)
+
+  const result = await db.update(templates)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(templates.id, templateId))
+    .returning()
+    .get()
+
+  if (!result) return c.json({ message: 'Template not found' }, 404)
+
+  return c.json(serializeTemplate(result), 200)
+})
+
+// Delete Template
+const deleteTemplateRoute = createRoute({
+  method: 'delete',
+  path: '/api/templates/{templateId}',
+  operationId: 'deleteTemplate',
+  request: {
+    params: TemplateIdParam
+  },
+  responses: {
+    200: {
+      content: { 'application/json': { schema: TemplateIdParam } },
+      description: 'Template deleted'
+    },
+    403: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: "Built-in templates are read-only, and saved ones need an owner or editor of the template's project"
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Template not found'
+    }
+  }
+})
+
+app.openapi(deleteTemplateRoute, async (c) => {
+  const { templateId } = c.req.valid('param')
+  const db = drizzle(c.env.DB, { schema })
+
+  if (findBuiltIn(templateId)) {
+    return c.json({ message: 'Built-in templates cannot be deleted' }, 403)
+  }
+
+  const problem = await changeProblem(db, templateId, c.get('user').id)
+  if (problem) return c.json({ message: problem.message }, problem.status)
+
+  const deleted = await db.delete(templates)
+    .where(eq(templates.id, templateId))
+    .returning({ id: templates.id })
+    .get()
+
+  if (!deleted) return c.json({ message: 'Template not found' }, 404)
+
+  return c.json({ templateId }, 200)
+})
+
+// Instantiate Template into the checklist
+const instantiateTemplateRoute = createRoute({
+  method: 'post',
+  path: '/api/projects/{projectId}/templates/{templateId}/instantiate',
+  operationId: 'instantiateTemplate',
+  request: {
+    params: ProjectTemplateParam,
+    body: {
+      content: {
+        'application/json': {
+          schema: InstantiateTemplateSchema
+        }
+      }
+    }
+  },
+  responses: {
+    201: {
+      content: { 'application/json': { schema: InstantiateResultSchema } },
+      description: 'Areas, categories and unchecked items created'
+    },
+    404: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'Template not found'
+    },
+    409: {
+      content: { 'application/json': { schema: ErrorSchema } },
+      description: 'The project already has an area with a key the template would create'
+    }
+  }
+})
+
+app.openapi(instantiateTemplateRoute, async (c) => {
+  const { projectId, templateId } = c.req.valid('param')
+  const { prefix } = c.req.valid('json')
+  const db = drizzle(c.env.DB, { schema })
+
+  const template = findBuiltIn(templateId)
+    ?? await db.select()
+      .from(templates)
+      .where(and(eq(templates.id, templateId), templateVisibleTo(db, c.get('user').id)))
+      .get()
+  if (!template) return c.json({ message: 'Template not found' }, 404)
+
+  const keys = template.areas.map((area) => `${prefix}${area.key}`)
+  const taken = await db.select({ key: areas.key })
+    .from(areas)
+    .where(and(eq(areas.projectId, projectId), inArray(areas.key, keys)))
+    .all()
+  if (taken.length > 0) {
+    return c.json({ message: `Areas already exist: ${taken.map((row) => row.key).join(', ')}; choose a different prefix` }, 409)
+  }
+
+  const resultMax = await db.select({ sortOrder: areas.sortOrder })
+    .from(areas)
+    .where(eq(areas.projectId, projectId))
+    .orderBy(desc(areas.sortOrder))
+    .limit(1)
+    .get()
+
+  const { statements, events, areaIds } = instantiateStatements(
+    db, projectId, template.areas, prefix, resultMax ? resultMax.sortOrder + 1 : 0, getActor(c)
+  )
+  await batchWithEvents(db, projectId, statements, events)
+
+  publishResync(c, projectId)
+  return c.json({ templateId, areaIds, counts: templateCounts(template.areas) }, 201)
+})
+
+export default app
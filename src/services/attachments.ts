@@ -0,0 +1,64 @@
+import type { InferSelectModel } from "drizzle-orm";
+import { attachments } from "../db/schema";
+import { uploadToCloudflareImages, deleteFromCloudflareImages } from "./images";
+import { Logger } from "./logger";
+
+type Attachment = InferSelectModel<typeof attachments>;
+
+export interface StoredFile {
+  storage: Attachment["storage"];
+  url: string;
+  thumbnailUrl: string | null;
+}
+
+// Served by GET /api/projects/{projectId}/attachments/{id}/file
+export const attachmentFileUrl = (projectId: string, id: string) => `/api/projects/${projectId}/attachments/${id}/file`;
+
+const r2Key = (id: string) => `attachments/${id}`;
+
+/**
+ * Store an uploaded file. Images are offered to Cloudflare Images first; when
+ * that is not configured (e.g. under `wrangler dev`) or fails, the file is
+ * written to the ATTACHMENTS bucket, which wrangler simulates locally.
+ */
+export async function storeAttachment(env: Env, projectId: string, id: string, file: File): Promise<StoredFile> {
+  const isImage = file.type.startsWith("image/");
+  const buffer = await file.arrayBuffer();
+
+  if (isImage && env.CLOUDFLARE_IMAGES_TOKEN) {
+    const url = await uploadToCloudflareImages(env, buffer, id, file.type);
+    if (url) return { storage: "images", url, thumbnailUrl: url };
+  }
+
+  await env.ATTACHMENTS.put(r2Key(id), buffer, {
+    httpMetadata: { contentType: file.type || "application/octet-stream" },
+    customMetadata: { fileName: file.name },
+  });
+
+  const url = attachmentFileUrl(projectId, id);
+  return { storage: "r2", url, thumbnailUrl: isImage ? url : null };
+}
+
+export async function readAttachment(env: Env, id: string) {
+  return env.ATTACHMENTS.get(r2Key(id));
+}
+
+/**
+ * Remove stored files for attachments whose rows are being deleted. Failures
+ * are logged rather than thrown so a storage hiccup never blocks a delete.
+ */
+export async function removeStoredFiles(env: Env, rows: Pick<Attachment, "id" | "storage">[]) {
+  const logger = new Logger(env, "AttachmentsService");
+  for (const row of rows) {
+    try {
+      if (row.storage === "images") {
+        await deleteFromCloudflareImages(env, row.id);
+      } else {
+        await env.ATTACHMENTS.delete(r2Key(row.id));
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Unknown error";
+      await logger.error(`Failed to remove stored file for attachment ${row.id}`, { error: msg });
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { setCookie, deleteCookie } from "hono/cookie";
+import { drizzle, type DrizzleD1Database } from "drizzle-orm/d1";
+import { and, eq, gt } from "drizzle-orm";
+import { users, sessions, projectMembers, type ROLES } from "../db/schema";
+import * as schema from "../db/schema";
+
+type Db = DrizzleD1Database<typeof schema>;
+
+export type Role = (typeof ROLES)[number];
+export interface AuthUser {
+  id: string;
+  name: string;
+}
+
+declare module "hono" {
+  interface ContextVariableMap {
+    // Set by requireAuth on every /api route except the public invite and bootstrap routes
+    user: AuthUser;
+    sessionHash: string;
+    // Set by requireProjectRole on /api/projects/{projectId}/...
+    role: Role;
+  }
+}
+
+export const SESSION_TTL_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What each role may do inside a project. Contractors only see the checklist
+ * itself (no decisions, activity or members); project settings, members,
+ * invites and share links are the owner's.
+ */
+export type Permission = "viewChecklist" | "viewAll" | "edit" | "manage";
+
+const PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ["viewChecklist", "viewAll", "edit", "manage"],
+  editor: ["viewChecklist", "viewAll", "edit"],
+  contractor: ["viewChecklist"],
+  viewer: ["viewChecklist", "viewAll"],
+};
+
+export const can = (role: Role, permission: Permission) => PERMISSIONS[role].includes(permission);
+
+// Sections under /api/projects/{projectId}/ a contractor may read
+const CHECKLIST_SECTIONS = ["checklist", "items", "categories", "areas", "attachments", "sync"];
+
+/** The permission a project-scoped request needs, from its method and path. */
+export function requiredPermission(method: string, path: string): Permission {
+  // ['', 'api', 'projects', projectId, section, ...]
+  const section = path.split("/")[4];
+  const isRead = method === "GET" || method === "HEAD";
+
+  if (section === undefined || section === "") return isRead ? "viewChecklist" : "manage";
+  if (section === "invites" || section === "share-links") return "manage";
+  if (section === "members") return isRead ? "viewAll" : "manage";
+  if (!isRead) return "edit";
+  return CHECKLIST_SECTIONS.includes(section) ? "viewChecklist" : "viewAll";
+}
+
+/** Random opaque token for sessions and invite links. */
+export function newToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function hashToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Issue a session token. The plain token is only ever returned here. */
+export async function createSession(db: Db, userId: string, label: string | null) {
+  const token = newToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * DAY_MS);
+  await db.insert(sessions).values({ tokenHash: await hashToken(token), userId, label, expiresAt });
+  return { token, expiresAt };
+}
+
+/** Bearer token from the Authorization header. */
+export const readToken = (request: Request) =>
+  request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
+
+/**
+ * A page load can't send the Authorization header, so signing in from a
+ * browser also stores the token in this HttpOnly cookie for server-rendered
+ * pages (the dashboard) to read. The API never accepts it: requests from
+ * other sites carry cookies too, headers they can't forge.
+ */
+export const SESSION_COOKIE = "session";
+
+export const setSessionCookie = (c: Context, token: string, expiresAt: Date) =>
+  setCookie(c, SESSION_COOKIE, token, { httpOnly: true, secure: true, sameSite: "Lax", path: "/", expires: expiresAt });
+
+export const clearSessionCookie = (c: Context) => deleteCookie(c, SESSION_COOKIE, { path: "/", secure: true });
+
+/**
+ * Browser WebSockets can't set headers, so a WebSocket upgrade to an agent may
+ * carry the token as `?token=` instead. Nothing else may: URLs end up in logs,
+ * browser history and Referer headers.
+ */
+const readUpgradeToken = (request: Request) =>
+  readToken(request)
+  ?? (request.headers.get("Upgrade")?.toLowerCase() === "websocket" ? new URL(request.url).searchParams.get("token") : null);
+
+/** The signed-in user for a token, or null when it is missing, unknown or expired. */
+export async function resolveSession(db: Db, token: string | null) {
+  if (!token) return null;
+
+  const tokenHash = await hashToken(token);
+  const row = await db.select({ user: { id: users.id, name: users.name }, lastUsedAt: sessions.lastUsedAt })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(and(eq(sessions.tokenHash, tokenHash), gt(sessions.expiresAt, new Date())))
+    .get();
+  if (!row) return null;
+
+  // Touch at most hourly so reads don't turn into writes
+  if (!row.lastUsedAt || Date.now() - row.lastUsedAt.getTime() > 60 * 60 * 1000) {
+    await db.update(sessions).set({ lastUsedAt: new Date() }).where(eq(sessions.tokenHash, tokenHash));
+  }
+
+  return { user: row.user, tokenHash };
+}
+
+export const memberRole = async (db: Db, projectId: string, userId: string) =>
+  (await db.select({ role: projectMembers.role })
+    .from(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+    .get())?.role ?? null;
+
+/** 401 unless the request carries a valid session token. */
+export const requireAuth = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  const session = await resolveSession(drizzle(c.env.DB, { schema }), readToken(c.req.raw));
+  if (!session) return c.json({ message: "Authentication required" }, 401);
+
+  c.set("user", session.user);
+  c.set("sessionHash", session.tokenHash);
+  await next();
+});
+
+/**
+ * Gate for /api/projects/{projectId}/...: 404 when the project doesn't exist
+ * or the caller isn't a member (so project ids don't leak), 403 when their
+ * role doesn't allow the request.
+ */
+export const requireProjectRole = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  const projectId = c.req.param("projectId");
+  const role = projectId ? await memberRole(drizzle(c.env.DB, { schema }), projectId, c.get("user").id) : null;
+  if (!role) return c.json({ message: "Project not found" }, 404);
+
+  const permission = requiredPermission(c.req.method, c.req.path);
+  if (!can(role, permission)) {
+    return c.json({ message: `The ${role} role cannot ${permission === "edit" ? "make changes" : "access this"}` }, 403);
+  }
+
+  c.set("role", role);
+  await next();
+});
+
+// Agents open to every member who can see the checklist; unlisted ones need "edit"
+const AGENT_PERMISSIONS: Record<string, Permission> = {
+  "checklist-sync": "viewChecklist",
+};
+
+/**
+ * routeAgentRequest hook. Agents are addressed per project
+ * (/agents/<agent>/<projectId>); the AI agents spend the OpenAI key, so they
+ * need an editor or owner of that project.
+ */
+export async function authorizeAgentRequest(request: Request, env: Env, agent: string, projectId: string) {
+  const db = drizzle(env.DB, { schema });
+  const session = await resolveSession(db, readUpgradeToken(request));
+  if (!session) return Response.json({ message: "Authentication required" }, { status: 401 });
+
+  const role = await memberRole(db, projectId, session.user.id);
+  if (!role) return Response.json({ message: "Project not found" }, { status: 404 });
+  if (!can(role, AGENT_PERMISSIONS[agent] ?? "edit")) {
+    return Response.json({ message: `The ${role} role cannot use this agent` }, { status: 403 });
+  }
+}
@@ -111,6 +111,25 @@ export async function renderScreenshot(env: Env, url: string, options?: { width?
 }
 
 
+/**
+ * Print an HTML document to PDF (US Letter, backgrounds included).
+ */
+export async function renderPdf(env: Env, html: string): Promise<ArrayBuffer> {
+  const client = getClient(env);
+  const response = await client.browserRendering.pdf.create({
+    account_id: env.CLOUDFLARE_ACCOUNT_ID,
+    html: html,
+    pdfOptions: { format: "letter", printBackground: true }
+  });
+
+  const buffer = await response.arrayBuffer();
+  if (!buffer || buffer.byteLength === 0) {
+    throw new Error("Browser Rendering returned empty PDF");
+  }
+
+  return buffer;
+}
+
 /**
  * Scrape specific elements from the page using CSS selectors.
  */
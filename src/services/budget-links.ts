@@ -0,0 +1,258 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { and, eq, gt, inArray, isNull, ne, notInArray, or, type SQL, type SQLWrapper } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { budgetItems, categories, decisionOptions, decisions, items, quotes, type BUDGET_STATUSES } from "../db/schema";
+import type * as schema from "../db/schema";
+import { loadDecision, chosenOption } from "./decisions";
+import { decisionInProject, itemInProject } from "./projects";
+import { serializeBudgetItem } from "./budget";
+import { statusEvent } from "./budget-status";
+
+type Db = DrizzleD1Database<typeof schema>;
+type BudgetItemRow = typeof budgetItems.$inferSelect;
+type BudgetStatus = (typeof BUDGET_STATUSES)[number];
+
+/*
+ * A budget line the sync created for a checklist item or decision option
+ * follows that selection: selecting something priced creates (or updates) its
+ * line as Pending, and deselecting it, trashing it or changing the choice
+ * removes the line. Lines entered or edited by hand are never touched, even
+ * when linked, and neither is anything already Ordered; the reconciliation
+ * report shows where those no longer match. Lines with quotes are never
+ * removed, and an accepted quote's amount is kept as the cost whatever the
+ * selection's price.
+ */
+const FOLLOWS_SELECTION: BudgetStatus[] = ["Estimating", "Decision Needed", "Pending"];
+
+const follows = (line: BudgetItemRow) => line.origin === "selection" && FOLLOWS_SELECTION.includes(line.status);
+
+interface Selection {
+  name: string;
+  category: string;
+  areaId: string;
+  cost: number;
+}
+
+const lineUpdate = (
+  db: Db,
+  line: BudgetItemRow,
+  selection: Selection,
+  actor: string | null,
+  link: Partial<Pick<BudgetItemRow, "decisionOptionId">> = {}
+): BatchItem<"sqlite">[] => [
+  db.update(budgetItems)
+    .set({ ...selection, ...link, status: "Pending" })
+    .where(eq(budgetItems.id, line.id)),
+  ...(line.status === "Pending" ? [] : [statusEvent(db, line.id, line.status, "Pending", actor)]),
+];
+
+const lineInsert = (
+  db: Db,
+  projectId: string,
+  selection: Selection,
+  actor: string | null,
+  link: Pick<BudgetItemRow, "itemId"> | Pick<BudgetItemRow, "decisionOptionId">
+): BatchItem<"sqlite">[] => {
+  const id = crypto.randomUUID();
+  return [
+    db.insert(budgetItems).values({ id, projectId, ...selection, ...link, origin: "selection", status: "Pending", variance: 0 }),
+    statusEvent(db, id, null, "Pending", actor),
+  ];
+};
+
+// Which of these lines have quotes collected, and which have one accepted
+const quotesOf = (db: Db, lineIds: string[] | SQLWrapper) =>
+  db.select({ budgetItemId: quotes.budgetItemId, acceptedAt: quotes.acceptedAt })
+    .from(quotes)
+    .where(inArray(quotes.budgetItemId, lineIds));
+
+const quoteSets = (rows: { budgetItemId: string; acceptedAt: Date | null }[]) => ({
+  quoted: new Set(rows.map((row) => row.budgetItemId)),
+  accepted: new Set(rows.filter((row) => row.acceptedAt !== null).map((row) => row.budgetItemId)),
+});
+
+const runBatch = async (db: Db, statements: BatchItem<"sqlite">[]) => {
+  if (statements.length > 0) await db.batch(statements as [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]]);
+};
+
+/**
+ * Statement removing the sync's lines that still follow these items or options. For
+ * routes that hard-delete them, where the foreign key would only unlink.
+ */
+export const followingLineDeletes = (db: Db, link: "itemId" | "decisionOptionId", ids: string[] | SQLWrapper) =>
+  db.delete(budgetItems).where(and(
+    inArray(budgetItems[link], ids),
+    eq(budgetItems.origin, "selection"),
+    inArray(budgetItems.status, FOLLOWS_SELECTION),
+    notInArray(budgetItems.id, db.select({ id: quotes.budgetItemId }).from(quotes))
+  ));
+
+/**
+ * Bring the lines of the project's items matching `where` (every item when
+ * omitted) in step with their check state, price, label and category.
+ */
+export async function syncItemLines(db: Db, projectId: string, actor: string | null, where?: SQL) {
+  const scope = and(itemInProject(db, projectId), where);
+  const linked = inArray(budgetItems.itemId, db.select({ id: items.id }).from(items).where(scope));
+  const [rows, lines, quoteRows] = await db.batch([
+    db.select({ item: items, category: categories.name, areaId: categories.areaId })
+      .from(items)
+      .innerJoin(categories, eq(items.categoryId, categories.id))
+      .where(scope),
+    db.select().from(budgetItems).where(linked),
+    quotesOf(db, db.select({ id: budgetItems.id }).from(budgetItems).where(linked)),
+  ]);
+
+  const { quoted, accepted } = quoteSets(quoteRows);
+  const linesByItem = new Map(lines.map((line) => [line.itemId, line]));
+  const statements: BatchItem<"sqlite">[] = [];
+
+  for (const { item, category, areaId } of rows) {
+    const line = linesByItem.get(item.id);
+    // An item with no price yet says nothing about the budget either way
+    if (item.price === null || (line && !follows(line))) continue;
+    const selected = item.isChecked && item.deletedAt === null && item.price > 0;
+
+    if (!selected) {
+      if (line && !quoted.has(line.id)) statements.push(db.delete(budgetItems).where(eq(budgetItems.id, line.id)));
+      continue;
+    }
+
+    const cost = line && accepted.has(line.id) ? line.cost : item.price;
+    const selection = { name: item.label, category, areaId, cost };
+    const unchanged = line && line.status === "Pending" &&
+      line.name === selection.name && line.category === category && line.areaId === areaId && line.cost === selection.cost;
+    if (unchanged) continue;
+
+    statements.push(...(line ? lineUpdate(db, line, selection, actor) : lineInsert(db, projectId, selection, actor, { itemId: item.id })));
+  }
+
+  await runBatch(db, statements);
+}
+
+/**
+ * Bring a decision's line in step with its choice. Switching options moves
+ * the one line to the new option rather than replacing it.
+ */
+export async function syncDecisionLine(db: Db, projectId: string, decisionId: string, actor: string | null) {
+  const decision = await loadDecision(db, projectId, decisionId);
+  if (!decision || decision.options.length === 0) return;
+
+  const lines = await db.select()
+    .from(budgetItems)
+    .where(inArray(budgetItems.decisionOptionId, decision.options.map((option) => option.id)))
+    .all();
+
+  const { quoted, accepted } = quoteSets(lines.length > 0 ? await quotesOf(db, lines.map((line) => line.id)).all() : []);
+  const chosen = chosenOption(decision);
+  // A line with quotes stays with the option they were collected for
+  const following = lines.filter((line) =>
+    follows(line) && line.decisionOptionId !== chosen?.id && !quoted.has(line.id));
+  const statements: BatchItem<"sqlite">[] = [];
+
+  if (chosen && chosen.price > 0) {
+    const current = lines.find((line) => line.decisionOptionId === chosen.id);
+    const cost = current && accepted.has(current.id) ? current.cost : chosen.price;
+    const selection = { name: chosen.label, category: decision.title, areaId: decision.areaId, cost };
+
+    if (current) {
+      if (follows(current)) statements.push(...lineUpdate(db, current, selection, actor));
+    } else if (following.length > 0) {
+      statements.push(...lineUpdate(db, following.shift()!, selection, actor, { decisionOptionId: chosen.id }));
+    } else {
+      statements.push(...lineInsert(db, projectId, selection, actor, { decisionOptionId: chosen.id }));
+    }
+  }
+
+  for (const line of following) statements.push(db.delete(budgetItems).where(eq(budgetItems.id, line.id)));
+
+  await runBatch(db, statements);
+}
+
+/**
+ * Where the budget and the selections disagree: priced selections with no
+ * line (or only a cancelled one), lines whose selection is gone (or that
+ * never had one), and linked lines whose cost no longer matches the price.
+ */
+export async function reconcileBudget(db: Db, projectId: string) {
+  const [selectedItems, chosenOptions, lines] = await db.batch([
+    db.select({ id: items.id, label: items.label, price: items.price, areaId: categories.areaId })
+      .from(items)
+      .innerJoin(categories, eq(items.categoryId, categories.id))
+      .where(and(itemInProject(db, projectId), eq(items.isChecked, true), isNull(items.deletedAt), gt(items.price, 0))),
+    db.select({ id: decisionOptions.id, decisionId: decisionOptions.decisionId, label: decisionOptions.label, price: decisionOptions.price, areaId: decisions.areaId })
+      .from(decisions)
+      .innerJoin(decisionOptions, eq(decisions.chosenOptionId, decisionOptions.id))
+      .where(and(decisionInProject(db, projectId), gt(decisionOptions.price, 0))),
+    db.select().from(budgetItems).where(and(eq(budgetItems.projectId, projectId), ne(budgetItems.status, "Cancelled"))),
+  ]);
+
+  const prices = new Map<string, number>([
+    ...selectedItems.map((item) => [`item:${item.id}`, item.price!] as const),
+    ...chosenOptions.map((option) => [`option:${option.id}`, option.price] as const),
+  ]);
+  const linkOf = (line: BudgetItemRow) =>
+    line.itemId ? `item:${line.itemId}` : line.decisionOptionId ? `option:${line.decisionOptionId}` : null;
+  const budgeted = new Set(lines.map(linkOf));
+
+  const unbudgeted = [
+    ...selectedItems
+      .filter((item) => !budgeted.has(`item:${item.id}`))
+      .map((item) => ({ type: "item" as const, id: item.id, decisionId: null, label: item.label, areaId: item.areaId, price: item.price! })),
+    ...chosenOptions
+      .filter((option) => !budgeted.has(`option:${option.id}`))
+      .map((option) => ({ type: "decisionOption" as const, ...option })),
+  ];
+
+  const unselected = lines
+    .filter((line) => { const link = linkOf(line); return link === null || !prices.has(link); })
+    .map((line) => ({ ...serializeBudgetItem(line), reason: linkOf(line) === null ? "unlinked" as const : "notSelected" as const }));
+
+  const mismatched = lines
+    .filter((line) => { const link = linkOf(line); return link !== null && prices.has(link) && prices.get(link) !== line.cost; })
+    .map((line) => ({ budgetItem: serializeBudgetItem(line), price: prices.get(linkOf(line)!)! }));
+
+  return {
+    unbudgeted,
+    unselected,
+    mismatched,
+    unbudgetedTotal: unbudgeted.reduce((sum, selection) => sum + selection.price, 0),
+    unselectedTotal: unselected.reduce((sum, line) => sum + line.cost, 0),
+  };
+}
+
+/**
+ * Why a line can't be linked as asked, or null if it can: the item or option
+ * must be in the project, and each one has at most one line.
+ */
+export async function checkLink(
+  db: Db,
+  projectId: string,
+  link: { itemId?: string | null; decisionOptionId?: string | null },
+  budgetItemId?: string
+) {
+  if (link.itemId) {
+    const item = await db.select({ id: items.id }).from(items).where(and(eq(items.id, link.itemId), itemInProject(db, projectId))).get();
+    if (!item) return { status: "notFound" as const, message: "Item not found" };
+  }
+  if (link.decisionOptionId) {
+    const option = await db.select({ id: decisionOptions.id })
+      .from(decisionOptions)
+      .innerJoin(decisions, eq(decisionOptions.decisionId, decisions.id))
+      .where(and(eq(decisionOptions.id, link.decisionOptionId), decisionInProject(db, projectId)))
+      .get();
+    if (!option) return { status: "notFound" as const, message: "Decision option not found" };
+  }
+
+  const claims = [
+    link.itemId ? eq(budgetItems.itemId, link.itemId) : undefined,
+    link.decisionOptionId ? eq(budgetItems.decisionOptionId, link.decisionOptionId) : undefined,
+  ].filter((claim) => claim !== undefined);
+  if (claims.length === 0) return null;
+
+  const taken = await db.select({ id: budgetItems.id })
+    .from(budgetItems)
+    .where(and(or(...claims), budgetItemId ? ne(budgetItems.id, budgetItemId) : undefined))
+    .get();
+  return taken ? { status: "taken" as const, message: `Already linked to budget item '${taken.id}'` } : null;
+}
@@ -0,0 +1,65 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { asc, eq } from "drizzle-orm";
+import { budgetStatusEvents, type BUDGET_STATUSES } from "../db/schema";
+import type * as schema from "../db/schema";
+
+type Db = DrizzleD1Database<typeof schema>;
+type BudgetStatus = (typeof BUDGET_STATUSES)[number];
+type StatusEventRow = typeof budgetStatusEvents.$inferSelect;
+
+/*
+ * Estimating → Decision Needed → Pending → Ordered → Delivered → Installed.
+ * Until something is ordered a line can skip ahead (a linked selection goes
+ * straight to Pending) or step back; after that it only moves forward.
+ * Anything short of Installed can be Cancelled, and a cancelled line can be
+ * reopened as an estimate.
+ */
+export const BUDGET_TRANSITIONS: Record<BudgetStatus, BudgetStatus[]> = {
+  "Estimating": ["Decision Needed", "Pending", "Cancelled"],
+  "Decision Needed": ["Estimating", "Pending", "Cancelled"],
+  "Pending": ["Estimating", "Decision Needed", "Ordered", "Cancelled"],
+  "Ordered": ["Delivered", "Cancelled"],
+  "Delivered": ["Installed", "Cancelled"],
+  "Installed": [],
+  "Cancelled": ["Estimating"],
+};
+
+// Where a new line may start: nothing is ordered without going through the workflow
+export const INITIAL_STATUSES: BudgetStatus[] = ["Estimating", "Decision Needed", "Pending"];
+
+/** Why a line can't move from one status to another, or null if it can. */
+export function transitionProblem(from: BudgetStatus, to: BudgetStatus) {
+  if (from === to) return null;
+  if (BUDGET_TRANSITIONS[from].includes(to)) return null;
+
+  const next = BUDGET_TRANSITIONS[from];
+  return next.length > 0
+    ? `Cannot move from ${from} to ${to}; next can be ${next.join(", ")}`
+    : `Cannot move from ${from}; it is final`;
+}
+
+/** Why a new line can't start at this status, or null if it can. */
+export const initialStatusProblem = (status: BudgetStatus) =>
+  INITIAL_STATUSES.includes(status) ? null : `New budget items start as ${INITIAL_STATUSES.join(", ")}`;
+
+/** Statement recording a move; `from` is null for a new line. Batch it with the write. */
+export const statusEvent = (db: Db, budgetItemId: string, from: BudgetStatus | null, to: BudgetStatus, actor: string | null) =>
+  db.insert(budgetStatusEvents).values({ budgetItemId, fromStatus: from, toStatus: to, actor });
+
+export const serializeStatusEvent = (row: StatusEventRow) => ({
+  id: row.id,
+  fromStatus: row.fromStatus,
+  toStatus: row.toStatus,
+  actor: row.actor,
+  createdAt: row.createdAt.toISOString(),
+});
+
+/** Every move a budget line has made, oldest first. */
+export async function getBudgetTimeline(db: Db, budgetItemId: string) {
+  const rows = await db.select()
+    .from(budgetStatusEvents)
+    .where(eq(budgetStatusEvents.budgetItemId, budgetItemId))
+    .orderBy(asc(budgetStatusEvents.id))
+    .all();
+  return rows.map(serializeStatusEvent);
+}
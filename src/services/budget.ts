@@ -1,63 +1,136 @@
-export interface BudgetItem {
-  id: string;
-  name: string;
-  category: string;
-  status: "Ordered" | "Pending" | "Decision Needed" | "Estimating";
-  cost: number;
-  variance: number;
-}
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { and, asc, eq } from "drizzle-orm";
+import type { z } from "@hono/zod-openapi";
+import { areas, budgetAllocations, budgetItems, budgets, type BUDGET_STATUSES } from "../db/schema";
+import type * as schema from "../db/schema";
+import type { BudgetItemSchema, BudgetSummarySchema, BudgetEnvelopeSchema, BudgetWarningSchema } from "../zod";
 
-export interface BudgetSummary {
-  total: number;
-  spent: number;
-  remaining: number;
-}
+type Db = DrizzleD1Database<typeof schema>;
+type BudgetItemRow = typeof budgetItems.$inferSelect;
+type BudgetAllocationRow = typeof budgetAllocations.$inferSelect;
+type BudgetStatus = (typeof BUDGET_STATUSES)[number];
+type Scope = BudgetAllocationRow["scope"];
+
+export type BudgetItem = z.infer<typeof BudgetItemSchema>;
+export type BudgetSummary = z.infer<typeof BudgetSummarySchema>;
+type BudgetEnvelope = z.infer<typeof BudgetEnvelopeSchema>;
+type BudgetWarning = z.infer<typeof BudgetWarningSchema>;
+
+// Lines past these statuses are money promised to someone, or already paid.
+// Cancelled lines count toward nothing.
+const COMMITTED_STATUSES: BudgetStatus[] = ["Pending", "Ordered", "Delivered", "Installed"];
+const SPENT_STATUSES: BudgetStatus[] = ["Ordered", "Delivered", "Installed"];
+
+const SCOPES: Scope[] = ["category", "area"];
 
-const budgetItems: BudgetItem[] = [
-  {
-    id: "1",
-    name: "French Oak Engineered",
-    category: "Flooring",
-    status: "Ordered",
-    cost: 3400,
-    variance: 0,
-  },
-  {
-    id: "2",
-    name: "Nordic Ash Vinyl Plank",
-    category: "Flooring",
-    status: "Pending",
-    cost: 1800,
-    variance: -200,
-  },
-  {
-    id: "3",
-    name: "Carrara Porcelain Tile",
-    category: "Flooring",
-    status: "Decision Needed",
-    cost: 2400,
-    variance: 150,
-  },
-  {
-    id: "4",
-    name: "American Walnut",
-    category: "Flooring",
-    status: "Estimating",
-    cost: 1300,
-    variance: 0,
-  },
-];
-
-export function getBudgetItems(): BudgetItem[] {
-  return budgetItems;
+const formatAmount = (amount: number) => `$${amount.toLocaleString("en-US")}`;
+
+export const serializeBudgetItem = (row: BudgetItemRow): BudgetItem => ({
+  id: row.id,
+  name: row.name,
+  category: row.category,
+  areaId: row.areaId,
+  itemId: row.itemId,
+  decisionOptionId: row.decisionOptionId,
+  origin: row.origin,
+  status: row.status,
+  cost: row.cost,
+  variance: row.variance ?? 0,
+  createdAt: row.createdAt?.toISOString() ?? null,
+});
+
+export const serializeAllocation = (row: BudgetAllocationRow) => ({
+  id: row.id,
+  scope: row.scope,
+  scopeKey: row.scopeKey,
+  amount: row.amount,
+  note: row.note,
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+export async function getBudgetItems(
+  db: Db,
+  projectId: string,
+  filters: { category?: string; areaId?: string; status?: BudgetStatus } = {}
+): Promise<BudgetItem[]> {
+  const rows = await db.select()
+    .from(budgetItems)
+    .where(and(
+      eq(budgetItems.projectId, projectId),
+      filters.category ? eq(budgetItems.category, filters.category) : undefined,
+      filters.areaId ? eq(budgetItems.areaId, filters.areaId) : undefined,
+      filters.status ? eq(budgetItems.status, filters.status) : undefined
+    ))
+    .orderBy(asc(budgetItems.category), asc(budgetItems.createdAt))
+    .all();
+  return rows.map(serializeBudgetItem);
 }
 
-export function getBudgetSummary(): BudgetSummary {
-  const total = 15000;
-  const spent = budgetItems.reduce((acc, item) => acc + item.cost, 0);
-  return {
-    total,
-    spent,
-    remaining: total - spent,
-  };
+const totalsOf = (lines: BudgetItemRow[]) => ({
+  estimated: lines.reduce((sum, line) => sum + line.cost, 0),
+  committed: lines.filter((line) => COMMITTED_STATUSES.includes(line.status)).reduce((sum, line) => sum + line.cost, 0),
+  spent: lines.filter((line) => SPENT_STATUSES.includes(line.status)).reduce((sum, line) => sum + line.cost, 0),
+});
+
+const lineKey = (line: BudgetItemRow, scope: Scope) => (scope === "category" ? line.category : line.areaId);
+
+/**
+ * The project's budget against its lines, overall and per envelope, with
+ * warnings for envelopes whose committed (or merely estimated) cost exceeds
+ * their allocation, envelopes adding up to more than the total, and lines
+ * no envelope of a scope in use covers.
+ */
+export async function getBudgetSummary(db: Db, projectId: string): Promise<BudgetSummary> {
+  const [budget, allocations, lineRows, areaRows] = await db.batch([
+    db.select({ total: budgets.total }).from(budgets).where(eq(budgets.projectId, projectId)),
+    db.select()
+      .from(budgetAllocations)
+      .where(eq(budgetAllocations.projectId, projectId))
+      .orderBy(asc(budgetAllocations.scope), asc(budgetAllocations.scopeKey)),
+    db.select().from(budgetItems).where(eq(budgetItems.projectId, projectId)),
+    db.select({ id: areas.id, title: areas.title }).from(areas).where(eq(areas.projectId, projectId)),
+  ]);
+
+  const total = budget[0]?.total ?? 0;
+  const lines = lineRows.filter((line) => line.status !== "Cancelled");
+  const areaTitles = new Map(areaRows.map((area) => [area.id, area.title]));
+  const warnings: BudgetWarning[] = [];
+
+  const envelopes: BudgetEnvelope[] = allocations.map((allocation) => {
+    const totals = totalsOf(lines.filter((line) => lineKey(line, allocation.scope) === allocation.scopeKey));
+    const label = allocation.scope === "area" ? areaTitles.get(allocation.scopeKey) ?? allocation.scopeKey : allocation.scopeKey;
+    const envelope = { id: allocation.id, scope: allocation.scope, scopeKey: allocation.scopeKey, label, allocated: allocation.amount, ...totals, remaining: allocation.amount - totals.committed };
+
+    const scope = { scope: envelope.scope, scopeKey: envelope.scopeKey };
+    if (envelope.committed > envelope.allocated) {
+      const amount = envelope.committed - envelope.allocated;
+      warnings.push({ type: "envelope_over", ...scope, amount, message: `${label} has ${formatAmount(amount)} more committed than allocated` });
+    } else if (envelope.estimated > envelope.allocated) {
+      const amount = envelope.estimated - envelope.allocated;
+      warnings.push({ type: "envelope_at_risk", ...scope, amount, message: `${label} estimates run ${formatAmount(amount)} over its allocation` });
+    }
+    return envelope;
+  });
+
+  const allocated = { category: 0, area: 0 };
+  for (const scope of SCOPES) {
+    const inScope = envelopes.filter((envelope) => envelope.scope === scope);
+    if (inScope.length === 0) continue;
+
+    allocated[scope] = inScope.reduce((sum, envelope) => sum + envelope.allocated, 0);
+    if (total > 0 && allocated[scope] > total) {
+      const amount = allocated[scope] - total;
+      warnings.push({ type: "allocations_exceed_total", scope, scopeKey: null, amount, message: `${scope === "category" ? "Category" : "Area"} allocations exceed the budget total by ${formatAmount(amount)}` });
+    }
+
+    const keys = new Set(inScope.map((envelope) => envelope.scopeKey));
+    const outside = lines.filter((line) => !keys.has(lineKey(line, scope) ?? ""));
+    if (outside.length > 0) {
+      const amount = totalsOf(outside).estimated;
+      warnings.push({ type: "unallocated", scope, scopeKey: null, amount, message: `${outside.length} budget line(s) worth ${formatAmount(amount)} fall outside every ${scope} envelope` });
+    }
+  }
+
+  const totals = totalsOf(lines);
+  return { total, ...totals, remaining: total - totals.committed, allocated, envelopes, warnings };
 }
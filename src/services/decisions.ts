@@ -0,0 +1,65 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { type InferSelectModel, and, asc, eq, isNotNull } from "drizzle-orm";
+import { decisions, decisionOptions } from "../db/schema";
+import type * as schema from "../db/schema";
+import { decisionInProject } from "./projects";
+
+type Db = DrizzleD1Database<typeof schema>;
+
+type Decision = InferSelectModel<typeof decisions>;
+type DecisionOption = InferSelectModel<typeof decisionOptions>;
+
+export type DecisionWithOptions = Decision & { options: DecisionOption[] };
+
+/** Load one of a project's decisions with its options in display order. */
+export async function loadDecision(db: Db, projectId: string, id: string): Promise<DecisionWithOptions | undefined> {
+  return db.query.decisions.findFirst({
+    where: and(eq(decisions.id, id), decisionInProject(db, projectId)),
+    with: { options: { orderBy: [asc(decisionOptions.sortOrder)] } },
+  });
+}
+
+export const chosenOption = (decision: DecisionWithOptions) =>
+  decision.options.find((option) => option.id === decision.chosenOptionId) ?? null;
+
+/** A decision as returned by the API, with the price of the current choice. */
+export const withChosenPrice = (decision: DecisionWithOptions) => ({
+  ...decision,
+  chosenPrice: chosenOption(decision)?.price ?? null,
+});
+
+/**
+ * Options side by side. Deltas are relative to the chosen option, or to $0
+ * while nothing has been chosen yet.
+ */
+export function compareOptions(decision: DecisionWithOptions) {
+  const baseline = chosenOption(decision)?.price ?? 0;
+  const prices = decision.options.map((option) => option.price);
+  const cheapest = decision.options.reduce<DecisionOption | null>(
+    (best, option) => (best === null || option.price < best.price ? option : best),
+    null
+  );
+
+  return {
+    decisionId: decision.id,
+    title: decision.title,
+    chosenOptionId: decision.chosenOptionId,
+    options: decision.options.map((option) => ({
+      ...option,
+      isChosen: option.id === decision.chosenOptionId,
+      deltaFromChosen: option.price - baseline,
+    })),
+    cheapestOptionId: cheapest?.id ?? null,
+    priceSpread: prices.length > 0 ? Math.max(...prices) - Math.min(...prices) : 0,
+  };
+}
+
+/** Sum of the chosen option price across every decided decision in a project. */
+export async function committedTotal(db: Db, projectId: string): Promise<number> {
+  const rows = await db.select({ price: decisionOptions.price })
+    .from(decisions)
+    .innerJoin(decisionOptions, eq(decisions.chosenOptionId, decisionOptions.id))
+    .where(and(isNotNull(decisions.chosenOptionId), decisionInProject(db, projectId)))
+    .all();
+  return rows.reduce((sum, row) => sum + row.price, 0);
+}
@@ -0,0 +1,64 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { items, itemDependencies } from "../db/schema";
+import type * as schema from "../db/schema";
+
+type Db = DrizzleD1Database<typeof schema>;
+
+interface Edge {
+  itemId: string;
+  dependsOnId: string;
+}
+
+/**
+ * Unchecked, live prerequisites of an item: the decisions that still have to
+ * be made before this one can be checked off.
+ */
+export async function findBlockers(db: Db, itemId: string) {
+  const rows = await db.select({ item: items })
+    .from(itemDependencies)
+    .innerJoin(items, eq(itemDependencies.dependsOnId, items.id))
+    .where(and(
+      eq(itemDependencies.itemId, itemId),
+      eq(items.isChecked, false),
+      isNull(items.deletedAt)
+    ))
+    .orderBy(asc(items.sortOrder))
+    .all();
+  return rows.map((row) => row.item);
+}
+
+/**
+ * Check whether adding `itemId -> dependsOnId` would close a loop. Walks the
+ * prerequisites of `dependsOnId`; if `itemId` is reachable, returns the loop
+ * as a list of ids starting and ending with `itemId`, otherwise null.
+ */
+export function findCycle(edges: Edge[], itemId: string, dependsOnId: string): string[] | null {
+  const prerequisites = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = prerequisites.get(edge.itemId) ?? [];
+    list.push(edge.dependsOnId);
+    prerequisites.set(edge.itemId, list);
+  }
+
+  // Breadth-first, remembering how each node was reached so the path can be rebuilt
+  const cameFrom = new Map<string, string | null>([[dependsOnId, null]]);
+  const queue = [dependsOnId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === itemId) {
+      const path: string[] = [];
+      for (let node: string | null = current; node !== null; node = cameFrom.get(node) ?? null) {
+        path.unshift(node);
+      }
+      return [itemId, ...path];
+    }
+    for (const next of prerequisites.get(current) ?? []) {
+      if (!cameFrom.has(next)) {
+        cameFrom.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,129 @@
+import type { Progress } from "./progress";
+
+interface ExportItem {
+  label: string;
+  note: string | null;
+  price: number | null;
+  isChecked: boolean;
+  dueDate: string | null;
+  assignee: string | null;
+  trade: string | null;
+}
+
+interface ExportCategory {
+  name: string;
+  type: "radio" | "checkbox" | null;
+  progress: Progress;
+  items: ExportItem[];
+}
+
+interface ExportArea {
+  title: string;
+  progress: Progress;
+  categories: ExportCategory[];
+}
+
+const formatPrice = (price: number | null) =>
+  price === null ? "" : `$${price.toLocaleString("en-US")}`;
+
+const progressLine = (progress: Progress) =>
+  `${progress.checkedItems}/${progress.totalItems} done (${progress.percentComplete}%)`;
+
+const csvField = (value: string | number | boolean | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per item, flattened with its area and category. */
+export function toCsv(areas: ExportArea[]): string {
+  const header = ["Area", "Category", "Item", "Done", "Price", "Due", "Assignee", "Trade", "Note"];
+  const rows = areas.flatMap((area) =>
+    area.categories.flatMap((category) =>
+      category.items.map((item) => [
+        area.title, category.name, item.label, item.isChecked ? "yes" : "no", item.price,
+        item.dueDate, item.assignee, item.trade, item.note,
+      ])
+    )
+  );
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/** GitHub-style task lists, one heading per area and category. */
+export function toMarkdown(areas: ExportArea[], generatedAt: Date): string {
+  const lines = ["# Renovation Checklist", "", `_Exported ${generatedAt.toISOString().slice(0, 10)}_`, ""];
+  for (const area of areas) {
+    lines.push(`## ${area.title}`, "", `${progressLine(area.progress)}`, "");
+    for (const category of area.categories) {
+      lines.push(`### ${category.name}${category.type === "radio" ? " (pick one)" : ""}`, "");
+      for (const item of category.items) {
+        const details = [formatPrice(item.price), item.dueDate && `due ${item.dueDate}`, item.assignee, item.trade]
+          .filter(Boolean)
+          .join(" · ");
+        lines.push(`- [${item.isChecked ? "x" : " "}] ${item.label}${details ? ` — ${details}` : ""}`);
+        if (item.note) lines.push(`  > ${item.note.replace(/\n/g, " ")}`);
+      }
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Printable page for site walks. Used as the PDF source for Browser Rendering
+ * and served as-is (print from the browser) when no token is configured.
+ * Share links reuse it with their own title.
+ */
+export function toHtml(areas: ExportArea[], generatedAt: Date, title = "Renovation Checklist"): string {
+  const sections = areas.map((area) => `
+    <section>
+      <h2>${escapeHtml(area.title)} <small>${progressLine(area.progress)}</small></h2>
+      ${area.categories.map((category) => `
+        <h3>${escapeHtml(category.name)}${category.type === "radio" ? " <small>(pick one)</small>" : ""}</h3>
+        <table>
+          <tbody>
+            ${category.items.map((item) => `
+              <tr class="${item.isChecked ? "done" : ""}">
+                <td class="box">${item.isChecked ? "&#9745;" : "&#9744;"}</td>
+                <td>
+                  ${escapeHtml(item.label)}
+                  ${item.note ? `<div class="note">${escapeHtml(item.note)}</div>` : ""}
+                </td>
+                <td class="meta">${escapeHtml([item.dueDate && `due ${item.dueDate}`, item.assignee, item.trade].filter(Boolean).join(" · "))}</td>
+                <td class="price">${formatPrice(item.price)}</td>
+              </tr>`).join("")}
+          </tbody>
+        </table>`).join("")}
+    </section>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 11pt; color: #111; margin: 0.5in; }
+    h1 { font-size: 18pt; margin: 0 0 4pt; }
+    h2 { font-size: 14pt; border-bottom: 1px solid #999; margin: 18pt 0 6pt; }
+    h3 { font-size: 11pt; margin: 10pt 0 4pt; }
+    small { font-weight: normal; color: #555; font-size: 9pt; }
+    section { break-inside: avoid-page; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 3pt 4pt; vertical-align: top; border-bottom: 1px solid #eee; }
+    td.box { width: 14pt; font-size: 13pt; }
+    td.meta { color: #555; font-size: 9pt; white-space: nowrap; }
+    td.price { text-align: right; white-space: nowrap; width: 60pt; }
+    tr.done { color: #777; }
+    .note { color: #555; font-size: 9pt; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <small>Exported ${generatedAt.toISOString().slice(0, 10)}</small>
+  ${sections}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,89 @@
+import type { Context } from "hono";
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { sql, type InferInsertModel, type InferSelectModel, type SQL } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { itemEvents } from "../db/schema";
+import type * as schema from "../db/schema";
+
+type Db = DrizzleD1Database<typeof schema>;
+
+type ItemEventRow = InferSelectModel<typeof itemEvents>;
+export type ItemEventInput = Omit<InferInsertModel<typeof itemEvents>, "id" | "projectId" | "createdAt">;
+type EventTarget = Pick<ItemEventInput, "itemId" | "categoryId" | "areaId" | "actor">;
+
+/** Identify who made a change: the signed-in user's name (see requireAuth). */
+export const getActor = (c: Context): string | null => c.get("user")?.name ?? null;
+
+/** Event values are stored JSON-encoded so booleans and numbers round-trip. */
+export const encodeValue = (value: unknown): string | null =>
+  value === undefined || value === null ? null : JSON.stringify(value);
+
+/** Decode a stored event for API responses. */
+export const serializeEvent = (row: ItemEventRow) => ({
+  ...row,
+  oldValue: row.oldValue === null ? null : JSON.parse(row.oldValue),
+  newValue: row.newValue === null ? null : JSON.parse(row.newValue),
+  createdAt: row.createdAt.toISOString(),
+});
+
+/**
+ * Build one "update" event per field whose value actually changed.
+ */
+export function diffEvents(
+  target: EventTarget,
+  before: Record<string, unknown>,
+  changes: Record<string, unknown>
+): ItemEventInput[] {
+  return Object.entries(changes)
+    .filter(([field, value]) => value !== undefined && before[field] !== value)
+    .map(([field, value]) => ({
+      ...target,
+      action: "update" as const,
+      field,
+      oldValue: encodeValue(before[field]),
+      newValue: encodeValue(value),
+    }));
+}
+
+// D1 allows 100 bound parameters per statement; an event row binds at most 11
+const EVENTS_PER_STATEMENT = 9;
+
+/**
+ * Insert statements for a set of events, so callers can put them in the same
+ * D1 batch as the mutation they describe.
+ */
+const recordEvents = (db: Db, projectId: string, events: ItemEventInput[]) => {
+  const statements = [];
+  for (let i = 0; i < events.length; i += EVENTS_PER_STATEMENT) {
+    statements.push(db.insert(itemEvents).values(events.slice(i, i + EVENTS_PER_STATEMENT).map((event) => ({ ...event, projectId }))));
+  }
+  return statements;
+};
+
+/**
+ * Like recordEvents, but the rows are only inserted if `condition` still holds
+ * when the batch reaches them, e.g. the version check of the update they
+ * describe, so a write that loses its race records nothing.
+ */
+export const recordEventsWhere = (db: Db, projectId: string, events: ItemEventInput[], condition: SQL) => {
+  const statements = [];
+  for (let i = 0; i < events.length; i += EVENTS_PER_STATEMENT) {
+    const rows = events.slice(i, i + EVENTS_PER_STATEMENT).map((event) =>
+      sql`(${projectId}, ${event.itemId ?? null}, ${event.categoryId ?? null}, ${event.areaId ?? null}, ${event.action}, ${event.field ?? null}, ${event.oldValue ?? null}, ${event.newValue ?? null}, ${event.actor ?? null})`
+    );
+    // drizzle cannot build INSERT ... SELECT, and D1 only batches raw SQL without bound parameters
+    statements.push(db.run(sql`insert into ${itemEvents} (project_id, item_id, category_id, area_id, action, field, old_value, new_value, actor)
+      select * from (values ${sql.join(rows, sql`, `)}) where ${condition}`.inlineParams()));
+  }
+  return statements;
+};
+
+/**
+ * Run mutation statements and their audit events as one atomic D1 batch.
+ * Results come back untyped; callers re-read rows they need to return.
+ */
+export async function batchWithEvents(db: Db, projectId: string, statements: BatchItem<"sqlite">[], events: ItemEventInput[]) {
+  const [first, ...rest] = [...statements, ...recordEvents(db, projectId, events)];
+  if (!first) return [];
+  return db.batch([first, ...rest]);
+}
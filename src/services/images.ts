@@ -6,7 +6,7 @@ const CF_IMAGES_API = "https://api.cloudflare.com/client/v4/accounts";
  * Upload an image buffer to Cloudflare Images.
  * @returns The public URL of the uploaded image.
  */
-export async function uploadToCloudflareImages(env: Env, imageBuffer: ArrayBuffer, id: string): Promise<string | null> {
+export async function uploadToCloudflareImages(env: Env, imageBuffer: ArrayBuffer, id: string, mimeType = "image/png"): Promise<string | null> {
     const logger = new Logger(env, "ImagesService");
     
     // 1. Check for Token
@@ -24,13 +24,12 @@ export async function uploadToCloudflareImages(env: Env, imageBuffer: ArrayBuffe
     }
 
     let uploadBuffer = imageBuffer;
-    let extension = "png";
-    let mimeType = "image/png";
+    let extension = mimeType.split("/")[1] || "png";
 
     // 2. Upload Original PNG (Matching Python Script success)
     // Optimization block removed to ensure reliability and match user preference for PNG capture.
     
-    await logger.info(`Uploading raw screenshot (${uploadBuffer.byteLength} bytes) to Cloudflare Images...`);
+    await logger.info(`Uploading raw image (${uploadBuffer.byteLength} bytes) to Cloudflare Images...`);
 
     try {
         const formData = new FormData();
@@ -73,7 +72,35 @@ export async function uploadToCloudflareImages(env: Env, imageBuffer: ArrayBuffe
 
     } catch (e) {
         const msg = e instanceof Error ? e.message : "Unknown error";
-        await logger.error(`Failed to upload screenshot for ${id}`, { error: msg });
+        await logger.error(`Failed to upload image for ${id}`, { error: msg });
         return null;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Delete an image previously uploaded with a custom id.
+ * @returns Whether Cloudflare confirmed the deletion.
+ */
+export async function deleteFromCloudflareImages(env: Env, id: string): Promise<boolean> {
+    const logger = new Logger(env, "ImagesService");
+    const token = env.CLOUDFLARE_IMAGES_TOKEN;
+    const accountId = env.CLOUDFLARE_ACCOUNT_ID;
+
+    if (!token || !accountId) {
+        await logger.warn(`Skipping image delete for ${id}: Images credentials not configured.`);
+        return false;
+    }
+
+    const response = await fetch(`${CF_IMAGES_API}/${accountId}/images/v1/${id}`, {
+        method: "DELETE",
+        headers: {
+            Authorization: `Bearer ${token}`
+        }
+    });
+
+    if (!response.ok) {
+        await logger.error(`Failed to delete image ${id}`, { status: response.status });
+        return false;
+    }
+    return true;
+}
@@ -0,0 +1,278 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { and, eq, sql, type SQL } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import type { z } from "@hono/zod-openapi";
+import { areas, categories, items } from "../db/schema";
+import type * as schema from "../db/schema";
+import { encodeValue, type ItemEventInput } from "./history";
+import { categoryInProject, itemInProject } from "./projects";
+import {
+  OptionsCatalogSchema,
+  GroupedCatalogSchema,
+  type ImportCatalogSchema,
+  type ImportChangeSchema,
+} from "../zod";
+
+type Db = DrizzleD1Database<typeof schema>;
+type ImportChange = z.infer<typeof ImportChangeSchema>;
+type Entity = ImportChange["entity"];
+
+interface CatalogItem {
+  id: string;
+  label: string;
+  note: string | null;
+  price: number | null;
+}
+
+interface CatalogCategory {
+  name: string;
+  type: "radio" | "checkbox" | null;
+  items: CatalogItem[];
+}
+
+interface CatalogArea {
+  key: string;
+  title: string;
+  icon: string;
+  categories: CatalogCategory[];
+}
+
+export type CatalogFormat = "options" | "grouped";
+
+// Icon for areas from todo_schema_2.json, which doesn't name one
+const DEFAULT_ICON = "LayoutDashboard";
+
+// Category holding the plain per-area `checklist` strings of todo_schema.json
+const CHECKLIST_CATEGORY = "Checklist";
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 60);
+
+/** 'foundation_and_bio_defense' -> 'Foundation & Bio Defense', 'slab-infra' -> 'Slab Infra' */
+const humanize = (key: string) =>
+  key.split(/[-_]+/).filter(Boolean)
+    .map((word) => (word === "and" ? "&" : word[0].toUpperCase() + word.slice(1)))
+    .join(" ");
+
+const toItem = (option: { id: string; name: string; price: number; desc?: string }): CatalogItem => ({
+  id: option.id,
+  label: option.name,
+  note: option.desc ?? null,
+  price: option.price,
+});
+
+/**
+ * Map either catalog format onto areas/categories/items. Option groups become
+ * categories (keeping radio/checkbox), options become priced items with `desc`
+ * as the note, and checklist strings become unpriced items with ids derived
+ * from their text so re-imports find them again.
+ */
+export function readCatalog(catalog: z.infer<typeof ImportCatalogSchema>): { format: CatalogFormat; areas: CatalogArea[] } {
+  const options = OptionsCatalogSchema.safeParse(catalog);
+  if (options.success) {
+    return {
+      format: "options",
+      areas: Object.entries(options.data).map(([areaKey, area]) => ({
+        key: areaKey,
+        title: area.title,
+        icon: area.icon,
+        categories: [
+          ...area.options.map((group) => ({ name: group.label, type: group.type, items: group.items.map(toItem) })),
+          ...(area.checklist.length > 0
+            ? [{
+                name: CHECKLIST_CATEGORY,
+                type: null,
+                items: area.checklist.map((label) => ({ id: `${areaKey}_${slugify(label)}`, label, note: null, price: null })),
+              }]
+            : []),
+        ],
+      })),
+    };
+  }
+
+  const grouped = GroupedCatalogSchema.parse(catalog);
+  return {
+    format: "grouped",
+    areas: Object.entries(grouped).map(([areaKey, groups]) => ({
+      key: areaKey,
+      title: humanize(areaKey),
+      icon: DEFAULT_ICON,
+      categories: Object.entries(groups).map(([groupKey, options]) => ({
+        name: humanize(groupKey),
+        type: "checkbox" as const,
+        items: options.map(toItem),
+      })),
+    })),
+  };
+}
+
+/** Field-level diff in the shape reported back to the client; empty when nothing changed. */
+function diffFields(before: Record<string, unknown>, after: Record<string, unknown>) {
+  const fields: ImportChange["fields"] = {};
+  for (const [field, to] of Object.entries(after)) {
+    if (before[field] !== to) fields[field] = { from: before[field] ?? null, to };
+  }
+  return fields;
+}
+
+export interface ImportPlan {
+  changes: ImportChange[];
+  unchanged: number;
+  statements: BatchItem<"sqlite">[];
+  events: ItemEventInput[];
+}
+
+/**
+ * Work out what an import would do without writing anything. Within the
+ * project, areas match by key, categories by (area, name) and items by catalog
+ * id, so running the same catalog twice plans no changes, and another project
+ * importing it gets its own copy. Nothing is ever deleted, and check state,
+ * due dates and other user edits outside the catalog fields are left alone.
+ */
+export async function planImport(db: Db, projectId: string, catalogAreas: CatalogArea[], actor: string | null): Promise<ImportPlan> {
+  const plan: ImportPlan = { changes: [], unchanged: 0, statements: [], events: [] };
+  const record = (entity: Entity, action: ImportChange["action"], key: string, fields: ImportChange["fields"]) =>
+    plan.changes.push({ entity, action, key, fields });
+
+  // The project's whole checklist rather than IN (...) lookups: a catalog can
+  // name more ids than D1 binds per statement, and a household checklist is small
+  const existingAreas = await db.select().from(areas).where(eq(areas.projectId, projectId)).all();
+  const existingCategories = await db.select().from(categories).where(categoryInProject(db, projectId)).all();
+  const existingItems = await db.select().from(items).where(itemInProject(db, projectId)).all();
+
+  const areaByKey = new Map(existingAreas.map((area) => [area.key, area]));
+  const itemByCatalogId = new Map(existingItems.flatMap((item) => (item.catalogId !== null ? [[item.catalogId, item] as const] : [])));
+  const nextItemSort = new Map<number, number>();
+  for (const item of existingItems) {
+    nextItemSort.set(item.categoryId, Math.max(nextItemSort.get(item.categoryId) ?? 0, item.sortOrder + 1));
+  }
+  let nextAreaSort = existingAreas.reduce((highest, area) => Math.max(highest, area.sortOrder + 1), 0);
+
+  for (const area of catalogAreas) {
+    const current = areaByKey.get(area.key);
+    const areaId = current?.id ?? crypto.randomUUID();
+    const values = { title: area.title, icon: area.icon };
+
+    if (!current) {
+      plan.statements.push(db.insert(areas).values({ id: areaId, projectId, key: area.key, ...values, sortOrder: nextAreaSort++ }));
+      plan.events.push({ areaId, actor, action: "create", newValue: encodeValue({ key: area.key, ...values }) });
+      record("area", "create", area.key, diffFields({}, values));
+    } else {
+      const fields = diffFields(current, values);
+      if (Object.keys(fields).length > 0) {
+        plan.statements.push(db.update(areas).set(values).where(eq(areas.id, areaId)));
+        plan.events.push(...Object.entries(fields).map(([field, { from, to }]) => ({
+          areaId, actor, action: "update" as const, field, oldValue: encodeValue(from), newValue: encodeValue(to),
+        })));
+        record("area", "update", area.key, fields);
+      } else {
+        plan.unchanged++;
+      }
+    }
+
+    const inArea = existingCategories.filter((category) => category.areaId === areaId);
+    let nextCategorySort = inArea.reduce((highest, category) => Math.max(highest, category.sortOrder + 1), 0);
+
+    for (const category of area.categories) {
+      const key = `${area.key}/${category.name}`;
+      const currentCategory = inArea.find((row) => row.name === category.name);
+
+      // New categories get their autoincrement id inside the batch, so items look it up by (area, name)
+      let categoryRef: number | SQL;
+      if (!currentCategory) {
+        plan.statements.push(db.insert(categories).values({
+          areaId, name: category.name, type: category.type, sortOrder: nextCategorySort++,
+        }));
+        categoryRef = sql`(select ${categories.id} from ${categories} where ${and(eq(categories.areaId, areaId), eq(categories.name, category.name))} limit 1)`;
+        plan.events.push({ areaId, actor, action: "create", newValue: encodeValue({ name: category.name, type: category.type }) });
+        record("category", "create", key, diffFields({}, { name: category.name, type: category.type }));
+      } else {
+        categoryRef = currentCategory.id;
+        if (currentCategory.type !== category.type) {
+          plan.statements.push(db.update(categories).set({ type: category.type }).where(eq(categories.id, currentCategory.id)));
+          plan.events.push({
+            categoryId: currentCategory.id, areaId, actor, action: "update", field: "type",
+            oldValue: encodeValue(currentCategory.type), newValue: encodeValue(category.type),
+          });
+          record("category", "update", key, { type: { from: currentCategory.type, to: category.type } });
+        } else {
+          plan.unchanged++;
+        }
+      }
+
+      const categoryId = currentCategory?.id ?? null;
+      let nextSort = categoryId === null ? 0 : nextItemSort.get(categoryId) ?? 0;
+
+      for (const item of category.items) {
+        const currentItem = itemByCatalogId.get(item.id);
+        const values = { label: item.label, note: item.note, price: item.price };
+
+        if (!currentItem) {
+          const id = crypto.randomUUID();
+          plan.statements.push(db.insert(items).values({ id, catalogId: item.id, ...values, categoryId: categoryRef, sortOrder: nextSort++ }));
+          plan.events.push({ itemId: id, categoryId, areaId, actor, action: "create", newValue: encodeValue(values) });
+          record("item", "create", item.id, diffFields({}, { ...values, category: key }));
+          continue;
+        }
+
+        // Items the user trashed stay trashed and untouched
+        if (currentItem.deletedAt !== null) {
+          plan.unchanged++;
+          continue;
+        }
+
+        const fields = diffFields(currentItem, values);
+        const moved = currentItem.categoryId !== categoryId;
+        if (Object.keys(fields).length === 0 && !moved) {
+          plan.unchanged++;
+          continue;
+        }
+
+        plan.statements.push(db.update(items)
+          .set({
+            ...values,
+            ...(moved ? { categoryId: categoryRef, sortOrder: nextSort++ } : {}),
+            version: sql`${items.version} + 1`,
+          })
+          .where(eq(items.id, currentItem.id)));
+        plan.events.push(...Object.entries(fields).map(([field, { from, to }]) => ({
+          itemId: currentItem.id, categoryId, areaId, actor, action: "update" as const, field,
+          oldValue: encodeValue(from), newValue: encodeValue(to),
+        })));
+        if (moved) {
+          fields.categoryId = { from: currentItem.categoryId, to: categoryId ?? key };
+          plan.events.push({
+            itemId: currentItem.id, categoryId, areaId, actor, action: "update", field: "categoryId",
+            oldValue: encodeValue(currentItem.categoryId), newValue: encodeValue(categoryId),
+          });
+        }
+        record("item", "update", item.id, fields);
+      }
+    }
+  }
+
+  return plan;
+}
+
+/** Item ids that appear more than once in a catalog; they would collide on insert. */
+export function duplicateItemIds(catalogAreas: CatalogArea[]) {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const item of catalogAreas.flatMap((area) => area.categories.flatMap((category) => category.items))) {
+    if (seen.has(item.id)) duplicates.add(item.id);
+    seen.add(item.id);
+  }
+  return [...duplicates];
+}
+
+/** Tally planned changes per entity for the import summary. */
+export function countChanges(changes: ImportChange[], action: ImportChange["action"]) {
+  const counts = { areas: 0, categories: 0, items: 0 };
+  for (const change of changes) {
+    if (change.action !== action) continue;
+    if (change.entity === "area") counts.areas++;
+    else if (change.entity === "category") counts.categories++;
+    else counts.items++;
+  }
+  return counts;
+}
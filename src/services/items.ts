@@ -0,0 +1,244 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { and, desc, eq, exists, inArray, isNotNull, isNull, ne, sql, type SQL } from "drizzle-orm";
+import { items, categories, itemEvents } from "../db/schema";
+import type * as schema from "../db/schema";
+import type { BatchItem } from "drizzle-orm/batch";
+import { batchWithEvents, diffEvents, encodeValue, recordEventsWhere } from "./history";
+import { findBlockers } from "./dependencies";
+import { categoryInProject } from "./projects";
+import { itemUpserts, itemDeletes, type SyncChange } from "./sync";
+import { syncItemLines } from "./budget-links";
+
+type Db = DrizzleD1Database<typeof schema>;
+type Item = typeof items.$inferSelect;
+
+/** Fields a client may change on an item (PATCH /items/{id} and offline sync). */
+export type ItemChanges = Partial<Pick<Item, "label" | "note" | "price" | "categoryId" | "isChecked" | "dueDate" | "assignee" | "trade">>;
+
+export type ItemFields = Pick<Item, "label"> & Partial<Pick<Item, "note" | "dueDate" | "assignee" | "trade">>;
+
+// Every write to an item bumps its version so stale PATCHes can be rejected
+export const nextVersion = sql`${items.version} + 1`;
+
+// Load a live item with its category type and owning area (needed for radio rules and event rows).
+// Soft-deleted items are treated as missing unless `deleted` is requested.
+export const findItemWithContext = (db: Db, projectId: string, id: string, deleted = false) =>
+  db.select({ item: items, type: categories.type, areaId: categories.areaId })
+    .from(items)
+    .innerJoin(categories, eq(items.categoryId, categories.id))
+    .where(and(
+      eq(items.id, id),
+      categoryInProject(db, projectId),
+      deleted ? isNotNull(items.deletedAt) : isNull(items.deletedAt)
+    ))
+    .get();
+
+// True while the item is still at the version the client read. Guards the other statements of a
+// versioned write, which must run before the item's own update bumps the version.
+export const atVersion = (db: Db, id: string, version: number) =>
+  exists(db.select({ id: items.id }).from(items).where(and(eq(items.id, id), eq(items.version, version))));
+
+// Checked live items in a radio category other than the one being selected. `guard` makes the
+// match conditional, e.g. on the selected item still being at the version read.
+const checkedSiblings = (categoryId: number, selectedId: string, guard?: SQL) =>
+  and(
+    eq(items.categoryId, categoryId),
+    ne(items.id, selectedId),
+    eq(items.isChecked, true),
+    isNull(items.deletedAt),
+    guard
+  );
+
+/**
+ * Statements that clear the other selections of a radio category, for the
+ * same batch as the write that checks `selectedId`: one "isChecked" event per
+ * sibling, then the uncheck itself, whose returned rows are the siblings it
+ * changed. Both work on the rows matching when the batch runs, not on an
+ * earlier read, so two selections racing in one category cannot both stick.
+ */
+export const radioUncheckStatements = (
+  db: Db,
+  projectId: string,
+  target: { categoryId: number; areaId: string },
+  selectedId: string,
+  actor: string | null,
+  guard?: SQL
+) => {
+  const where = checkedSiblings(target.categoryId, selectedId, guard);
+  return [
+    // drizzle cannot build INSERT ... SELECT, and D1 only batches raw SQL without bound parameters
+    db.run(sql`insert into ${itemEvents} (project_id, item_id, category_id, area_id, action, field, old_value, new_value, actor)
+      select ${projectId}, ${items.id}, ${target.categoryId}, ${target.areaId}, 'update', 'isChecked', ${encodeValue(true)}, ${encodeValue(false)}, ${actor}
+      from ${items} where ${where}`.inlineParams()),
+    db.update(items).set({ isChecked: false, version: nextVersion }).where(where).returning(),
+  ];
+};
+
+export type ItemUpdateResult =
+  | { status: "notFound"; message: string }
+  | { status: "conflict"; current: Item }
+  | { status: "blocked"; blockedBy: Item[] }
+  | { status: "updated"; item: Item; changed: Item[]; blockedBy: Item[]; sync: SyncChange[] };
+
+/**
+ * Version-guarded partial update. Checking an item in a radio category
+ * unchecks its siblings in the same batch; moving it to another category
+ * appends it there. `changed` lists every item whose row was written. A
+ * request that loses a race writes nothing: no unchecks and no events.
+ */
+export async function updateItem(
+  db: Db,
+  projectId: string,
+  id: string,
+  version: number,
+  changes: ItemChanges,
+  force: boolean,
+  actor: string | null
+): Promise<ItemUpdateResult> {
+  const existing = await findItemWithContext(db, projectId, id);
+  if (!existing) return { status: "notFound", message: "Item not found" };
+
+  const { item } = existing;
+  if (item.version !== version) return { status: "conflict", current: item };
+
+  const blockedBy = changes.isChecked && !item.isChecked ? await findBlockers(db, id) : [];
+  if (blockedBy.length > 0 && !force) return { status: "blocked", blockedBy };
+
+  let target = { categoryId: item.categoryId, type: existing.type, areaId: existing.areaId };
+  let updates: ItemChanges & { sortOrder?: number } = changes;
+
+  // Moving to another category appends the item to the end of it
+  if (changes.categoryId !== undefined && changes.categoryId !== item.categoryId) {
+    const category = await db.select({ id: categories.id, type: categories.type, areaId: categories.areaId })
+      .from(categories)
+      .where(and(eq(categories.id, changes.categoryId), categoryInProject(db, projectId)))
+      .get();
+
+    if (!category) return { status: "notFound", message: "Category not found" };
+    target = { categoryId: category.id, type: category.type, areaId: category.areaId };
+
+    const resultMax = await db.select({ sortOrder: items.sortOrder })
+      .from(items)
+      .where(eq(items.categoryId, category.id))
+      .orderBy(desc(items.sortOrder))
+      .limit(1)
+      .get();
+    updates = { ...changes, sortOrder: resultMax ? resultMax.sortOrder + 1 : 0 };
+  }
+
+  const events = diffEvents({ itemId: id, categoryId: target.categoryId, areaId: target.areaId, actor }, item, updates);
+
+  // The version check is repeated in the batch so a concurrent write between read and update is
+  // not lost. Sibling unchecks and the events go first, while the check still means "nobody else
+  // got here"; a request that loses the race writes none of them.
+  const unchanged = atVersion(db, id, version);
+  const willBeChecked = changes.isChecked ?? item.isChecked;
+  const unchecks: BatchItem<"sqlite">[] = willBeChecked && target.type === "radio"
+    ? radioUncheckStatements(db, projectId, target, id, actor, unchanged)
+    : [];
+  const update = db.update(items)
+    .set({ ...updates, version: nextVersion })
+    .where(and(eq(items.id, id), eq(items.version, version)))
+    .returning();
+  const statements: BatchItem<"sqlite">[] = [...unchecks, ...recordEventsWhere(db, projectId, events, unchanged), update];
+  const results = await db.batch(statements as [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]]);
+  const [updated] = results.at(-1) as Item[];
+  const unchecked = unchecks.length > 0 ? results[1] as Item[] : [];
+
+  if (!updated) {
+    const current = await db.select().from(items).where(eq(items.id, id)).get();
+    if (!current) return { status: "notFound", message: "Item not found" };
+    return { status: "conflict", current };
+  }
+
+  const changed = [updated, ...unchecked];
+  await syncItemLines(db, projectId, actor, inArray(items.id, changed.map((row) => row.id)));
+
+  return {
+    status: "updated",
+    item: updated,
+    changed,
+    blockedBy,
+    sync: [
+      // Moving to another area takes it away from that area's subscribers
+      ...(target.areaId !== existing.areaId ? itemDeletes(existing.areaId, [id]) : []),
+      ...itemUpserts(target.areaId, changed),
+    ],
+  };
+}
+
+/** Append a new item to a category. Offline clients pass their own (UUID) id. */
+export async function createItem(
+  db: Db,
+  projectId: string,
+  categoryId: number,
+  fields: ItemFields,
+  actor: string | null,
+  id: string = crypto.randomUUID()
+) {
+  const category = await db.select({ areaId: categories.areaId })
+    .from(categories)
+    .where(and(eq(categories.id, categoryId), categoryInProject(db, projectId)))
+    .get();
+
+  if (!category) return { status: "notFound" as const, message: "Category not found" };
+
+  // Find max sort order
+  const resultMax = await db.select({ sortOrder: items.sortOrder })
+    .from(items)
+    .where(eq(items.categoryId, categoryId))
+    .orderBy(desc(items.sortOrder))
+    .limit(1)
+    .get();
+
+  const sortOrder = resultMax ? resultMax.sortOrder + 1 : 0;
+
+  const values = {
+    id,
+    categoryId,
+    label: fields.label,
+    note: fields.note || null,
+    isChecked: false,
+    sortOrder,
+    dueDate: fields.dueDate ?? null,
+    assignee: fields.assignee ?? null,
+    trade: fields.trade ?? null,
+  };
+
+  await batchWithEvents(db, projectId, [
+    db.insert(items).values(values),
+  ], [{
+    itemId: id,
+    categoryId,
+    areaId: category.areaId,
+    actor,
+    action: "create",
+    newValue: encodeValue(values),
+  }]);
+
+  const result = await db.select().from(items).where(eq(items.id, id)).get();
+  return { status: "created" as const, item: result!, sync: itemUpserts(category.areaId, [result!]) };
+}
+
+/** Move a live item to the trash; it stays restorable until purged. */
+export async function deleteItem(db: Db, projectId: string, id: string, actor: string | null) {
+  const existing = await findItemWithContext(db, projectId, id);
+  if (!existing) return { status: "notFound" as const, message: "Item not found" };
+
+  const { item, areaId } = existing;
+
+  await batchWithEvents(db, projectId, [
+    db.update(items).set({ deletedAt: new Date(), version: nextVersion }).where(eq(items.id, id)),
+  ], [{
+    itemId: id,
+    categoryId: item.categoryId,
+    areaId,
+    actor,
+    action: "delete",
+    oldValue: encodeValue(item),
+  }]);
+
+  await syncItemLines(db, projectId, actor, eq(items.id, id));
+
+  return { status: "deleted" as const, sync: itemDeletes(areaId, [id]) };
+}
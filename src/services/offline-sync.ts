@@ -0,0 +1,186 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { and, asc, eq, gt, inArray, sql } from "drizzle-orm";
+import type { z } from "@hono/zod-openapi";
+import { areas, categories, items, itemEvents, entityChanges } from "../db/schema";
+import type * as schema from "../db/schema";
+import { itemInProject } from "./projects";
+import { createItem, deleteItem, findItemWithContext, updateItem, type ItemChanges } from "./items";
+import type { SyncChange } from "./sync";
+import type { SyncMutationSchema, SyncConflictSchema } from "../zod";
+
+type Db = DrizzleD1Database<typeof schema>;
+type Item = typeof items.$inferSelect;
+type SyncMutation = z.infer<typeof SyncMutationSchema>;
+type SyncConflict = z.infer<typeof SyncConflictSchema>;
+
+export interface SyncMutationResult {
+  id: string;
+  status: "applied" | "rejected";
+  message?: string;
+  item: Item | null;
+  conflicts: SyncConflict[];
+}
+
+// Attempts at an update before giving up on an item that keeps changing underneath it.
+// Retrying is safe: an attempt that loses the version race writes nothing (see updateItem).
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Everything in a project that changed after `since`, oldest first, up to
+ * `limit` entities. Entities that no longer exist (and trashed items) are
+ * listed under `deleted`. One batch, so the page is a consistent snapshot.
+ */
+export async function loadChanges(db: Db, projectId: string, since: number, limit: number) {
+  const after = and(eq(entityChanges.projectId, projectId), gt(entityChanges.seq, since));
+  const page = db.select({ seq: entityChanges.seq }).from(entityChanges).where(after).orderBy(asc(entityChanges.seq)).limit(limit);
+  const changedIds = (entity: "area" | "item") =>
+    db.select({ id: entityChanges.entityId })
+      .from(entityChanges)
+      .where(and(eq(entityChanges.entity, entity), inArray(entityChanges.seq, page)));
+
+  const [changes, areaRows, categoryRows, itemRows] = await db.batch([
+    // One past the page tells us whether there is more
+    db.select().from(entityChanges).where(after).orderBy(asc(entityChanges.seq)).limit(limit + 1),
+    db.select({ id: areas.id, key: areas.key, title: areas.title, icon: areas.icon, sortOrder: areas.sortOrder })
+      .from(areas)
+      .where(inArray(areas.id, changedIds("area"))),
+    db.select()
+      .from(categories)
+      .where(inArray(categories.id, db.select({ id: sql<number>`cast(${entityChanges.entityId} as integer)` })
+        .from(entityChanges)
+        .where(and(eq(entityChanges.entity, "category"), inArray(entityChanges.seq, page))))),
+    db.select().from(items).where(inArray(items.id, changedIds("item"))),
+  ]);
+
+  const changed = changes.slice(0, limit);
+  const liveItems = itemRows.filter((item) => item.deletedAt === null);
+  const found = new Set([
+    ...areaRows.map((area) => `area:${area.id}`),
+    ...categoryRows.map((category) => `category:${category.id}`),
+    ...liveItems.map((item) => `item:${item.id}`),
+  ]);
+  const missing = (entity: "area" | "category" | "item") =>
+    changed.filter((row) => row.entity === entity && !found.has(`${entity}:${row.entityId}`)).map((row) => row.entityId);
+
+  return {
+    cursor: changed.at(-1)?.seq ?? since,
+    hasMore: changes.length > limit,
+    areas: areaRows,
+    categories: categoryRows,
+    items: liveItems,
+    deleted: {
+      areas: missing("area"),
+      categories: missing("category").map(Number),
+      items: missing("item"),
+    },
+  };
+}
+
+// When each field of an item last changed on the server; `null` is its creation
+async function fieldChangeTimes(db: Db, itemId: string) {
+  const rows = await db.select({ field: itemEvents.field, changedAt: sql<number>`max(${itemEvents.createdAt})` })
+    .from(itemEvents)
+    .where(and(eq(itemEvents.itemId, itemId), inArray(itemEvents.action, ["create", "update"])))
+    .groupBy(itemEvents.field)
+    .all();
+  return new Map(rows.map((row) => [row.field, row.changedAt * 1000]));
+}
+
+const applied = (id: string, item: Item | null, conflicts: SyncConflict[] = []): SyncMutationResult =>
+  ({ id, status: "applied", item, conflicts });
+
+const rejected = (id: string, message: string, item: Item | null = null, conflicts: SyncConflict[] = []): SyncMutationResult =>
+  ({ id, status: "rejected", message, item, conflicts });
+
+async function applyCreate(db: Db, projectId: string, mutation: Extract<SyncMutation, { op: "create" }>, actor: string | null) {
+  // A create the client retries after losing our response is already here
+  const existing = await db.select().from(items).where(and(eq(items.id, mutation.itemId), itemInProject(db, projectId))).get();
+  if (existing) return { result: applied(mutation.id, existing.deletedAt ? null : existing), sync: [] };
+
+  const taken = await db.select({ id: items.id }).from(items).where(eq(items.id, mutation.itemId)).get();
+  if (taken) return { result: rejected(mutation.id, "Item id is already in use"), sync: [] };
+
+  const created = await createItem(db, projectId, mutation.categoryId, mutation.fields, actor, mutation.itemId);
+  if (created.status === "notFound") return { result: rejected(mutation.id, created.message), sync: [] };
+  return { result: applied(mutation.id, created.item), sync: created.sync };
+}
+
+/**
+ * Field-level merge. A field conflicts when the server's value differs from
+ * the client's and from the `base` the client edited (or no base was sent).
+ * The later write wins: the client's changedAt, capped at now so a fast
+ * clock can't win everything, against the field's last server event.
+ */
+async function applyUpdate(db: Db, projectId: string, mutation: Extract<SyncMutation, { op: "update" }>, actor: string | null) {
+  const clientTime = Math.min(Date.parse(mutation.changedAt), Date.now());
+
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const existing = await findItemWithContext(db, projectId, mutation.itemId);
+    if (!existing) return { result: rejected(mutation.id, "Item not found"), sync: [] };
+
+    const { item } = existing;
+    const serverTimes = await fieldChangeTimes(db, item.id);
+    const changes: Record<string, unknown> = {};
+    const conflicts: SyncConflict[] = [];
+
+    for (const field of Object.keys(mutation.fields) as (keyof ItemChanges)[]) {
+      const clientValue = mutation.fields[field];
+      const serverValue = item[field];
+      if (clientValue === undefined || clientValue === serverValue) continue;
+
+      const base = mutation.base?.[field];
+      if (base !== undefined && base === serverValue) {
+        changes[field] = clientValue;
+        continue;
+      }
+
+      const serverTime = serverTimes.get(field) ?? serverTimes.get(null) ?? 0;
+      const winner = clientTime > serverTime ? "client" : "server";
+      conflicts.push({ field, clientValue, serverValue, winner });
+      if (winner === "client") changes[field] = clientValue;
+    }
+
+    if (Object.keys(changes).length === 0) return { result: applied(mutation.id, item, conflicts), sync: [] };
+
+    const result = await updateItem(db, projectId, item.id, item.version, changes as ItemChanges, !!mutation.force, actor);
+    if (result.status === "conflict") continue;
+    if (result.status === "notFound") return { result: rejected(mutation.id, result.message, item, conflicts), sync: [] };
+    if (result.status === "blocked") {
+      return { result: rejected(mutation.id, "Item has unchecked prerequisites", item, conflicts), sync: [] };
+    }
+    return { result: applied(mutation.id, result.item, conflicts), sync: result.sync };
+  }
+
+  return { result: rejected(mutation.id, "Item kept changing; pull and try again"), sync: [] };
+}
+
+async function applyDelete(db: Db, projectId: string, mutation: Extract<SyncMutation, { op: "delete" }>, actor: string | null) {
+  const result = await deleteItem(db, projectId, mutation.itemId, actor);
+  if (result.status === "deleted") return { result: applied(mutation.id, null), sync: result.sync };
+
+  // Already in the trash: deleting again is a no-op
+  const trashed = await findItemWithContext(db, projectId, mutation.itemId, true);
+  return { result: trashed ? applied(mutation.id, null) : rejected(mutation.id, result.message), sync: [] };
+}
+
+/**
+ * Replay queued offline mutations in order. Each one stands alone: a
+ * rejection is reported and the rest still apply. Deletes beat concurrent
+ * edits, since trashed items can be restored.
+ */
+export async function applyMutations(db: Db, projectId: string, mutations: SyncMutation[], actor: string | null) {
+  const results: SyncMutationResult[] = [];
+  const sync: SyncChange[] = [];
+
+  for (const mutation of mutations) {
+    const outcome = mutation.op === "create"
+      ? await applyCreate(db, projectId, mutation, actor)
+      : mutation.op === "update"
+        ? await applyUpdate(db, projectId, mutation, actor)
+        : await applyDelete(db, projectId, mutation, actor);
+    results.push(outcome.result);
+    sync.push(...outcome.sync);
+  }
+
+  return { results, sync };
+}
@@ -0,0 +1,67 @@
+export interface Progress {
+  totalItems: number;
+  checkedItems: number;
+  percentComplete: number;
+  checkedPrice: number;
+}
+
+interface ProgressItem {
+  isChecked: boolean;
+  price: number | null;
+  deletedAt: Date | null;
+}
+
+const percent = (checked: number, total: number) =>
+  total === 0 ? 0 : Math.round((checked / total) * 100);
+
+/**
+ * Roll up a list of items. Trashed items never count, even when the
+ * checklist was loaded with them included.
+ */
+export function itemProgress(items: ProgressItem[]): Progress {
+  const live = items.filter((item) => item.deletedAt === null);
+  const checked = live.filter((item) => item.isChecked);
+  return {
+    totalItems: live.length,
+    checkedItems: checked.length,
+    percentComplete: percent(checked.length, live.length),
+    checkedPrice: checked.reduce((acc, item) => acc + (item.price ?? 0), 0),
+  };
+}
+
+/**
+ * Sum child rollups; the percentage is recomputed from the totals rather
+ * than averaged, so large categories weigh more.
+ */
+export function combineProgress(parts: Progress[]): Progress {
+  const totalItems = parts.reduce((acc, part) => acc + part.totalItems, 0);
+  const checkedItems = parts.reduce((acc, part) => acc + part.checkedItems, 0);
+  return {
+    totalItems,
+    checkedItems,
+    percentComplete: percent(checkedItems, totalItems),
+    checkedPrice: parts.reduce((acc, part) => acc + part.checkedPrice, 0),
+  };
+}
+
+type ChecklistArea = { categories: { items: ProgressItem[] }[] };
+type WithProgress<T> = T & { progress: Progress };
+
+/**
+ * Attach `progress` to every category and area of a loaded checklist tree.
+ */
+export function withProgress<A extends ChecklistArea>(
+  areas: A[]
+): WithProgress<Omit<A, "categories"> & { categories: WithProgress<A["categories"][number]>[] }>[] {
+  return areas.map((area) => {
+    const categories = area.categories.map((category) => ({
+      ...category,
+      progress: itemProgress(category.items),
+    }));
+    return {
+      ...area,
+      categories,
+      progress: combineProgress(categories.map((category) => category.progress)),
+    };
+  });
+}
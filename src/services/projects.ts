@@ -0,0 +1,31 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { and, eq, inArray } from "drizzle-orm";
+import { areas, categories, items, decisions } from "../db/schema";
+import type * as schema from "../db/schema";
+
+type Db = DrizzleD1Database<typeof schema>;
+
+// Rows that predate projects were migrated here
+export const DEFAULT_PROJECT_ID = "default";
+
+/*
+ * Only areas carry a project id; everything below them is scoped through
+ * these subqueries, which slot into an existing WHERE clause.
+ */
+export const projectAreaIds = (db: Db, projectId: string) =>
+  db.select({ id: areas.id }).from(areas).where(eq(areas.projectId, projectId));
+
+export const projectCategoryIds = (db: Db, projectId: string) =>
+  db.select({ id: categories.id }).from(categories).where(inArray(categories.areaId, projectAreaIds(db, projectId)));
+
+export const categoryInProject = (db: Db, projectId: string) =>
+  inArray(categories.areaId, projectAreaIds(db, projectId));
+
+export const itemInProject = (db: Db, projectId: string) =>
+  inArray(items.categoryId, projectCategoryIds(db, projectId));
+
+export const decisionInProject = (db: Db, projectId: string) =>
+  inArray(decisions.areaId, projectAreaIds(db, projectId));
+
+export const areaExists = async (db: Db, projectId: string, areaId: string) =>
+  !!(await db.select({ id: areas.id }).from(areas).where(and(eq(areas.id, areaId), eq(areas.projectId, projectId))).get());
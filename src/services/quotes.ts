@@ -0,0 +1,105 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { and, asc, eq, ne } from "drizzle-orm";
+import type { z } from "@hono/zod-openapi";
+import { budgetItems, quotes } from "../db/schema";
+import type * as schema from "../db/schema";
+import { serializeBudgetItem } from "./budget";
+import type { QuoteSchema, QuoteComparisonSchema } from "../zod";
+
+type Db = DrizzleD1Database<typeof schema>;
+type BudgetItemRow = typeof budgetItems.$inferSelect;
+type QuoteRow = typeof quotes.$inferSelect;
+
+type Quote = z.infer<typeof QuoteSchema>;
+type QuoteComparison = z.infer<typeof QuoteComparisonSchema>;
+
+export const serializeQuote = (row: QuoteRow): Quote => ({
+  id: row.id,
+  budgetItemId: row.budgetItemId,
+  vendor: row.vendor,
+  amount: row.amount,
+  validUntil: row.validUntil,
+  includes: row.includes,
+  excludes: row.excludes,
+  attachmentUrl: row.attachmentUrl,
+  note: row.note,
+  acceptedBy: row.acceptedBy,
+  acceptedAt: row.acceptedAt?.toISOString() ?? null,
+  createdAt: row.createdAt.toISOString(),
+});
+
+export async function getQuotes(db: Db, budgetItemId: string) {
+  const rows = await db.select()
+    .from(quotes)
+    .where(eq(quotes.budgetItemId, budgetItemId))
+    .orderBy(asc(quotes.amount), asc(quotes.createdAt))
+    .all();
+  return rows.map(serializeQuote);
+}
+
+// Scope items are free text from different vendors; match them loosely
+const scopeKey = (entry: string) => entry.trim().toLowerCase();
+
+/**
+ * Rank a line's quotes. The scope is everything any quote includes; a
+ * quote's completeness is the share of it that quote covers without
+ * excluding. Current quotes come before expired ones, then the most complete,
+ * then the cheapest, so a low price that leaves out half the job doesn't win.
+ */
+export async function compareQuotes(db: Db, line: BudgetItemRow): Promise<QuoteComparison> {
+  const rows = await db.select().from(quotes).where(eq(quotes.budgetItemId, line.id)).all();
+  const today = new Date().toISOString().slice(0, 10);
+
+  const scope = new Map<string, string>();
+  for (const quote of rows) {
+    for (const entry of quote.includes) {
+      if (!scope.has(scopeKey(entry))) scope.set(scopeKey(entry), entry.trim());
+    }
+  }
+
+  const byPrice = [...rows].sort((a, b) => a.amount - b.amount);
+  const assessed = rows.map((quote) => {
+    const included = new Set(quote.includes.map(scopeKey));
+    const excluded = new Set(quote.excludes.map(scopeKey));
+    const missing = [...scope].filter(([key]) => !included.has(key) || excluded.has(key)).map(([, entry]) => entry);
+
+    return {
+      ...serializeQuote(quote),
+      priceRank: byPrice.indexOf(quote) + 1,
+      completeness: scope.size > 0 ? Math.round(((scope.size - missing.length) / scope.size) * 100) / 100 : 1,
+      missing,
+      expired: quote.validUntil !== null && quote.validUntil < today,
+      difference: quote.amount - line.cost,
+    };
+  });
+
+  const ranked = assessed
+    .sort((a, b) => Number(a.expired) - Number(b.expired) || b.completeness - a.completeness || a.amount - b.amount)
+    .map((quote, index) => ({ ...quote, rank: index + 1 }));
+
+  return { budgetItem: serializeBudgetItem(line), scope: [...scope.values()], quotes: ranked };
+}
+
+/**
+ * Take a quote: it becomes the line's cost, and the variance is measured from
+ * the line's original estimate (cost - variance), so accepting a different
+ * quote later doesn't compound. Any previously accepted quote is released.
+ */
+export async function acceptQuote(db: Db, line: BudgetItemRow, quote: QuoteRow, actor: string | null) {
+  const estimate = line.cost - (line.variance ?? 0);
+
+  const [, , [updated]] = await db.batch([
+    db.update(quotes)
+      .set({ acceptedBy: null, acceptedAt: null })
+      .where(and(eq(quotes.budgetItemId, line.id), ne(quotes.id, quote.id))),
+    db.update(quotes)
+      .set({ acceptedBy: actor, acceptedAt: new Date() })
+      .where(eq(quotes.id, quote.id)),
+    db.update(budgetItems)
+      .set({ cost: quote.amount, variance: quote.amount - estimate })
+      .where(eq(budgetItems.id, line.id))
+      .returning(),
+  ]);
+
+  return serializeBudgetItem(updated);
+}
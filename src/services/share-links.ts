@@ -0,0 +1,89 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import type * as schema from "../db/schema";
+import type { shareLinks } from "../db/schema";
+import { withProgress } from "./progress";
+
+type Db = DrizzleD1Database<typeof schema>;
+type ShareLink = typeof shareLinks.$inferSelect;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+
+/**
+ * Token for a share link: `<id>.<expiry in epoch seconds>.<HMAC-SHA256>`.
+ * Deterministic, so the list route can show the url again.
+ */
+export async function signShareLink(secret: string, id: string, expiresAt: Date) {
+  const payload = `${id}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64Url(signature)}`;
+}
+
+/**
+ * The link id and expiry a token was signed for, or null when it is malformed
+ * or the signature doesn't match. Expiry and revocation are the caller's to check.
+ */
+export async function verifyShareToken(secret: string, token: string) {
+  const [id, expiry, signature] = token.split(".");
+  if (!id || !/^\d+$/.test(expiry ?? "") || !signature) return null;
+
+  let signatureBytes: ReturnType<typeof fromBase64Url>;
+  try {
+    signatureBytes = fromBase64Url(signature);
+  } catch {
+    return null;
+  }
+
+  const valid = await crypto.subtle.verify("HMAC", await hmacKey(secret), signatureBytes, encoder.encode(`${id}.${expiry}`));
+  return valid ? { id, expiresAt: new Date(Number(expiry) * 1000) } : null;
+}
+
+/**
+ * The part of a project's checklist a share link covers: live items matching
+ * every filter that is set, with empty categories and areas dropped and
+ * progress recomputed over what's left. Prices are blanked unless the link
+ * shows them, so the rollups don't leak totals either.
+ */
+export async function loadSharedChecklist(db: Db, link: ShareLink) {
+  const allAreas = await db.query.areas.findMany({
+    where: (areas, { eq }) => eq(areas.projectId, link.projectId),
+    with: {
+      categories: {
+        orderBy: (categories, { asc }) => [asc(categories.sortOrder)],
+        with: {
+          items: {
+            where: (items, { isNull }) => isNull(items.deletedAt),
+            orderBy: (items, { asc }) => [asc(items.sortOrder)],
+          },
+        },
+      },
+    },
+    orderBy: (areas, { asc }) => [asc(areas.sortOrder)],
+  });
+
+  const filtered = allAreas
+    .filter((area) => !link.areaIds || link.areaIds.includes(area.id))
+    .map((area) => ({
+      ...area,
+      categories: area.categories
+        .filter((category) => !link.categoryIds || link.categoryIds.includes(category.id))
+        .map((category) => ({
+          ...category,
+          items: category.items
+            .filter((item) => !link.trades || (item.trade !== null && link.trades.includes(item.trade)))
+            .map((item) => (link.showPrices ? item : { ...item, price: null })),
+        }))
+        .filter((category) => category.items.length > 0),
+    }))
+    .filter((area) => area.categories.length > 0);
+
+  return withProgress(filtered);
+}
@@ -0,0 +1,59 @@
+import type { Context } from "hono";
+import { getAgentByName } from "agents";
+import type { InferSelectModel } from "drizzle-orm";
+import type { items, categories } from "../db/schema";
+import type { ChecklistSync } from "../agents/checklist-sync";
+import { Logger } from "./logger";
+
+type Item = InferSelectModel<typeof items>;
+type Category = InferSelectModel<typeof categories>;
+
+/**
+ * One committed checklist mutation as pushed to live clients. Upserts carry
+ * the whole row; deleting a category drops its items too. Soft-deleted and
+ * purged items are both plain deletes.
+ */
+export type SyncChange =
+  | { entity: "item"; op: "upsert"; areaId: string; id: string; data: Item }
+  | { entity: "item"; op: "delete"; areaId: string; id: string }
+  | { entity: "category"; op: "upsert"; areaId: string; id: number; data: Category }
+  | { entity: "category"; op: "delete"; areaId: string; id: number };
+
+export const itemUpserts = (areaId: string, rows: Item[]): SyncChange[] =>
+  rows.map((row) => ({ entity: "item", op: "upsert", areaId, id: row.id, data: row }));
+
+export const itemDeletes = (areaId: string, ids: string[]): SyncChange[] =>
+  ids.map((id) => ({ entity: "item", op: "delete", areaId, id }));
+
+export const categoryUpserts = (rows: Category[]): SyncChange[] =>
+  rows.map((row) => ({ entity: "category", op: "upsert", areaId: row.areaId, id: row.id, data: row }));
+
+export const categoryDeletes = (areaId: string, ids: number[]): SyncChange[] =>
+  ids.map((id) => ({ entity: "category", op: "delete", areaId, id }));
+
+// After the response is sent. A lost broadcast leaves clients stale until
+// their next resync, so it is logged rather than failing the request.
+const deliver = (c: Context<{ Bindings: Env }>, projectId: string, send: (sync: DurableObjectStub<ChecklistSync>) => Promise<unknown>) => {
+  c.executionCtx.waitUntil(
+    getAgentByName(c.env.CHECKLIST_SYNC, projectId)
+      .then(send)
+      .catch(async (error) => {
+        const msg = error instanceof Error ? error.message : "Unknown error";
+        await new Logger(c.env, "ChecklistSync").error("Broadcast failed", { projectId, error: msg });
+      })
+  );
+};
+
+/** Push committed changes to the project's live clients, in order. */
+export function publishChanges(c: Context<{ Bindings: Env }>, projectId: string, changes: SyncChange[]) {
+  if (changes.length === 0) return;
+  deliver(c, projectId, (sync) => sync.publish(changes));
+}
+
+/**
+ * Tell every live client to reload the checklist. For changes too broad to
+ * describe row by row: imports, template instantiation and area edits.
+ */
+export function publishResync(c: Context<{ Bindings: Env }>, projectId: string) {
+  deliver(c, projectId, (sync) => sync.resync());
+}
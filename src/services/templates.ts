@@ -0,0 +1,223 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import { type InferSelectModel, and, eq, inArray, sql } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { areas, categories, items, projectMembers, templates, type TemplateArea } from "../db/schema";
+import type * as schema from "../db/schema";
+import { encodeValue, type ItemEventInput } from "./history";
+
+type Db = DrizzleD1Database<typeof schema>;
+type TemplateRow = InferSelectModel<typeof templates>;
+type TemplateCategory = TemplateArea["categories"][number];
+
+const unpriced = (...labels: string[]) => labels.map((label) => ({ label, price: null }));
+
+const category = (name: string, templateItems: TemplateCategory["items"], type: TemplateCategory["type"] = null) =>
+  ({ name, type, items: templateItems });
+
+const KITCHEN: TemplateArea = {
+  key: "kitchen",
+  title: "Kitchen",
+  icon: "ChefHat",
+  categories: [
+    category("Layout & Spatial Flow", [
+      { label: "Preserve Footprint", price: 0 },
+      { label: "Open Concept + Island", price: 12500 },
+    ], "radio"),
+    category("Appliance Integration", [
+      { label: "Pro-Style Stainless", price: 18000 },
+      { label: "Fully Integrated (Panel Ready)", price: 24500 },
+    ], "radio"),
+    category("Structural", unpriced(
+      "Structural Beam Installation", "Electrical Rerouting", "HVAC Vent Relocation", "Drywall Patching/Texture Match",
+    )),
+    category("Finishes", unpriced("Cabinetry Finish", "Countertop Selection", "Backsplash Tile", "Lighting Plan")),
+    category("Rough-in Checklist", unpriced(
+      "Gas line pressure test", "Dedicated 20A circuits for island", "Undercabinet LED channel integration", "Vent-hood external ducting",
+    )),
+  ],
+};
+
+const BATH: TemplateArea = {
+  key: "bath",
+  title: "Bathroom",
+  icon: "Bath",
+  categories: [
+    category("Layout", unpriced("Layout Changes?", "Plumbing Rough-in", "Vent Stack Routing")),
+    category("Fixtures", unpriced("Vanity Selection", "Shower/Tub Config", "Fixture Selection", "Heated Floors", "Steam Shower?")),
+    category("Ventilation & Safety", unpriced(
+      "Exhaust fan ductwork", "Anti-scald valve calibration", "Nail plate protection for plumbing",
+    )),
+  ],
+};
+
+// The structure of the original house (drizzle/init_seed.sql), minus notes
+const WHOLE_HOUSE: TemplateArea[] = [
+  {
+    key: "floor1_general", title: "1st Floor General", icon: "LayoutDashboard",
+    categories: [
+      category("Flooring Decisions", unpriced("DECISION: Polished Concrete vs Engineered Hardwood?", "Subfloor prep required?", "Baseboard style selection")),
+      category("Entryway", unpriced("Front Door Refinish/Replace", "Entry Lighting (Chandelier/Sconces)", "Coat Closet Organization")),
+      category("1st Floor Bath", unpriced("Vanity Selection", "Shower/Tub Config", "Ventilation Fan")),
+    ],
+  },
+  {
+    key: "kitchen_living", title: "Kitchen & Living", icon: "ChefHat",
+    categories: [
+      category("Structural (Wall Removal)", unpriced("Structural Beam Installation", "Electrical Rerouting", "HVAC Vent Relocation", "Drywall Patching/Texture Match")),
+      category("Kitchen Config", unpriced("Island Design (Seating flow to living)", "Appliance Layout", "Cabinetry Finish")),
+      category("Living Room", unpriced("Window Replacement?", "Lighting Plan (Open Concept)")),
+    ],
+  },
+  {
+    key: "exterior", title: "Exterior & Patio", icon: "Flower",
+    categories: [
+      category("Backyard Drainage", unpriced("French Drain Installation", "Bioswale Design & Plants", "Grading Check")),
+      category("Patio & Deck", unpriced("Sliding Glass Door", "Patio Floor Covering", "Deck Engineering", "Deck Railing Style", "Waterproofing Deck")),
+    ],
+  },
+  {
+    key: "floor2_general", title: "2nd Floor & Stairs", icon: "ArrowUpCircle",
+    categories: [
+      category("Stairs", unpriced("Stair Flooring (Match 2nd floor)", "Under-nose Lighting Wiring", "Handrail Update?")),
+      category("Flooring", unpriced("Engineered Hardwood Selection", "Subfloor Squeak Check")),
+    ],
+  },
+  {
+    key: "family_library", title: "Family & Library", icon: "BookOpen",
+    categories: [
+      category("Family Room", unpriced("DECISION: Resize Fireplace?", "DECISION: Convert to Gas Logs?", "TV Area / AV Wiring")),
+      category("Library", unpriced("Built-in Shelving Design", "Reading Light Wiring")),
+    ],
+  },
+  {
+    key: "laundry", title: "Laundry Room", icon: "RotateCcw",
+    categories: [
+      category("Utilities", unpriced("Cap unused plumbing", "Run 220V for Dryer", "Washer Drain Box Installation", "Dryer Vent Route")),
+    ],
+  },
+  {
+    key: "guest_suite", title: "Guest Bed & Bath", icon: "Sofa",
+    categories: [
+      category("Guest Bath", unpriced("Plumbing Rough-in", "Vent Stack Routing", "Fixture Selection")),
+      category("Guest Bedroom / Office", unpriced("Data/Ethernet drops", "Closet config")),
+    ],
+  },
+  {
+    key: "primary_suite", title: "Primary Suite", icon: "Bath",
+    categories: [
+      category("Primary Closet", unpriced("Custom System Design", "Lighting Plan")),
+      category("Primary Bath", unpriced("Layout Changes?", "Steam Shower?", "Heated Floors")),
+    ],
+  },
+];
+
+export const BUILT_IN_TEMPLATES = [
+  { id: "kitchen-only", name: "Kitchen only", description: "Kitchen remodel: layout and appliance decisions, structure, finishes and rough-in.", areas: [KITCHEN] },
+  { id: "bath-only", name: "Bath only", description: "Single bathroom: layout, fixtures, ventilation and safety.", areas: [BATH] },
+  { id: "whole-house", name: "Whole house", description: "Every area of a two-storey renovation, modelled on the original house.", areas: WHOLE_HOUSE },
+].map((template) => ({ ...template, projectId: null, builtIn: true, createdAt: null, updatedAt: null }));
+
+export const findBuiltIn = (id: string) => BUILT_IN_TEMPLATES.find((template) => template.id === id);
+
+/**
+ * Saved templates a user may see: those of projects they belong to. Any role
+ * qualifies, since the template holds nothing its project's checklist doesn't.
+ */
+export const templateVisibleTo = (db: Db, userId: string) =>
+  inArray(templates.projectId, db.select({ id: projectMembers.projectId }).from(projectMembers).where(eq(projectMembers.userId, userId)));
+
+export const serializeTemplate = (row: TemplateRow) => ({
+  ...row,
+  builtIn: false,
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+/** Number of areas, categories and items a template creates. */
+export const templateCounts = (templateAreas: TemplateArea[]) => ({
+  areas: templateAreas.length,
+  categories: templateAreas.reduce((sum, area) => sum + area.categories.length, 0),
+  items: templateAreas.reduce((sum, area) => sum + area.categories.reduce((inner, cat) => inner + cat.items.length, 0), 0),
+});
+
+/** Template metadata plus sizes, for listings. */
+export const summarizeTemplate = ({ areas: templateAreas, ...template }: ReturnType<typeof serializeTemplate> | (typeof BUILT_IN_TEMPLATES)[number]) => ({
+  ...template,
+  counts: templateCounts(templateAreas),
+});
+
+/**
+ * Capture the live checklist structure: areas keep their keys, trashed items
+ * are left out, and check state and notes are dropped.
+ */
+export async function snapshotChecklist(db: Db, projectId: string, areaIds?: string[]): Promise<TemplateArea[]> {
+  const rows = await db.query.areas.findMany({
+    where: (areas, { eq }) => eq(areas.projectId, projectId),
+    with: {
+      categories: {
+        orderBy: (categories, { asc }) => [asc(categories.sortOrder)],
+        with: {
+          items: {
+            where: (items, { isNull }) => isNull(items.deletedAt),
+            orderBy: (items, { asc }) => [asc(items.sortOrder)],
+          },
+        },
+      },
+    },
+    orderBy: (areas, { asc }) => [asc(areas.sortOrder)],
+  });
+
+  return rows
+    .filter((area) => !areaIds || areaIds.includes(area.id))
+    .map((area) => ({
+      key: area.key,
+      title: area.title,
+      icon: area.icon,
+      categories: area.categories.map((cat) => category(
+        cat.name,
+        cat.items.map((item) => ({ label: item.label, price: item.price })),
+        cat.type,
+      )),
+    }));
+}
+
+/**
+ * Statements that create a template's areas, categories and unchecked items,
+ * and the ids of the new areas. Category ids are autoincremented inside the
+ * batch, so items find theirs by (area, sort order), which is unique within a
+ * freshly created area.
+ */
+export function instantiateStatements(
+  db: Db,
+  projectId: string,
+  templateAreas: TemplateArea[],
+  prefix: string,
+  firstSortOrder: number,
+  actor: string | null
+) {
+  const statements: BatchItem<"sqlite">[] = [];
+  const events: ItemEventInput[] = [];
+  const areaIds: string[] = [];
+
+  templateAreas.forEach((area, areaIndex) => {
+    const areaId = crypto.randomUUID();
+    const areaValues = { id: areaId, projectId, key: `${prefix}${area.key}`, title: area.title, icon: area.icon, sortOrder: firstSortOrder + areaIndex };
+    areaIds.push(areaId);
+    statements.push(db.insert(areas).values(areaValues));
+    events.push({ areaId, actor, action: "create", newValue: encodeValue(areaValues) });
+
+    area.categories.forEach((cat, categoryIndex) => {
+      statements.push(db.insert(categories).values({ areaId, name: cat.name, type: cat.type, sortOrder: categoryIndex }));
+      const categoryId = sql`(select ${categories.id} from ${categories} where ${and(eq(categories.areaId, areaId), eq(categories.sortOrder, categoryIndex))})`;
+
+      cat.items.forEach((item, itemIndex) => {
+        const id = crypto.randomUUID();
+        const values = { label: item.label, price: item.price, isChecked: false, sortOrder: itemIndex };
+        statements.push(db.insert(items).values({ id, categoryId, ...values }));
+        events.push({ itemId: id, areaId, actor, action: "create", newValue: encodeValue(values) });
+      });
+    });
+  });
+
+  return { statements, events, areaIds };
+}
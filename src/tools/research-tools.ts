@@ -1,11 +1,17 @@
 import { tool } from "ai";
 import { z } from "zod";
 import * as BrowserService from "../services/browser-rendering";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { createDb } from "../db";
-import { budgetItems } from "../db/schema";
+import { budgetItems, projects, BUDGET_STATUSES } from "../db/schema";
+import { checkLink } from "../services/budget-links";
+import { transitionProblem, initialStatusProblem, statusEvent } from "../services/budget-status";
 
-export const createResearchTools = (env: Env) => {
+// Recorded as the actor on status moves the agent makes
+const AGENT_ACTOR = "Research Agent";
+
+// Budget writes land in `projectId`, the project the agent instance is named after
+export const createResearchTools = (env: Env, projectId: string) => {
   const db = createDb(env);
 
   return {
@@ -25,27 +31,57 @@ export const createResearchTools = (env: Env) => {
       parameters: z.object({
         name: z.string(),
         cost: z.number(),
-        status: z.enum(["Ordered", "Pending", "Decision Needed", "Estimating"]).optional(),
+        status: z.enum(BUDGET_STATUSES).optional().describe("Only moves the budget workflow allows; new items start as Estimating, Decision Needed or Pending"),
         category: z.string().optional(),
+        itemId: z.string().optional().describe("Checklist item this price is for"),
       }),
       // @ts-ignore
-      execute: async ({ name, cost, status, category }: { name: string, cost: number, status?: "Ordered" | "Pending" | "Decision Needed" | "Estimating", category?: string }) => {
-        const existing = await db.select().from(budgetItems).where(eq(budgetItems.name, name)).get();
+      execute: async ({ name, cost, status, category, itemId }: { name: string, cost: number, status?: (typeof BUDGET_STATUSES)[number], category?: string, itemId?: string }) => {
+        const project = await db.select({ id: projects.id }).from(projects).where(eq(projects.id, projectId)).get();
+        if (!project) return { action: "failed", error: `Project '${projectId}' does not exist` };
+
+        // A line linked to the item wins over one that merely shares its name
+        const linked = itemId
+          ? await db.select().from(budgetItems).where(and(eq(budgetItems.projectId, projectId), eq(budgetItems.itemId, itemId))).get()
+          : undefined;
+        const existing = linked ?? await db.select()
+          .from(budgetItems)
+          .where(and(eq(budgetItems.projectId, projectId), eq(budgetItems.name, name)))
+          .get();
+
+        const problem = itemId ? await checkLink(db, projectId, { itemId }, existing?.id) : null;
+        if (problem) return { action: "failed", error: problem.message };
 
         if (existing) {
-          await db.update(budgetItems)
-            .set({ cost, status: status || existing.status })
-            .where(eq(budgetItems.id, existing.id));
+          const statusProblem = status ? transitionProblem(existing.status, status) : null;
+          if (statusProblem) return { action: "failed", error: statusProblem };
+
+          const moved = status !== undefined && status !== existing.status;
+          await db.batch([
+            db.update(budgetItems)
+              .set({ cost, status: status || existing.status, origin: "manual", ...(itemId ? { itemId } : {}) })
+              .where(eq(budgetItems.id, existing.id)),
+            ...(moved ? [statusEvent(db, existing.id, existing.status, status!, AGENT_ACTOR)] : []),
+          ]);
           return { action: "updated", item: name, cost };
         } else {
-          await db.insert(budgetItems).values({
-            id: crypto.randomUUID(),
-            name,
-            cost,
-            category: category || "Uncategorized",
-            status: status || "Estimating",
-            variance: 0
-          });
+          const statusProblem = initialStatusProblem(status || "Estimating");
+          if (statusProblem) return { action: "failed", error: statusProblem };
+
+          const id = crypto.randomUUID();
+          await db.batch([
+            db.insert(budgetItems).values({
+              id,
+              projectId,
+              name,
+              cost,
+              category: category || "Uncategorized",
+              status: status || "Estimating",
+              itemId: itemId ?? null,
+              variance: 0
+            }),
+            statusEvent(db, id, null, status || "Estimating", AGENT_ACTOR),
+          ]);
           return { action: "created", item: name, cost };
         }
       }
@@ -1,39 +1,522 @@
 import { z } from '@hono/zod-openapi'
+import { TRADES, ROLES, BUDGET_STATUSES, BUDGET_ORIGINS } from './db/schema'
+
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).openapi({ format: 'date' })
+
+export const ProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string()
+}).openapi('Project')
+
+export const RoleSchema = z.enum(ROLES).openapi('Role', {
+  description: 'owner: everything; editor: read and change; contractor: read the checklist only; viewer: read everything'
+})
+
+export const ProjectWithRoleSchema = ProjectSchema.extend({
+  role: RoleSchema
+}).openapi('ProjectWithRole')
+
+export const UserSchema = z.object({
+  id: z.string(),
+  name: z.string()
+}).openapi('User')
+
+export const SessionSchema = z.object({
+  user: UserSchema,
+  token: z.string().openapi({ description: 'Bearer token; shown once' }),
+  expiresAt: z.string()
+}).openapi('Session')
+
+export const MeSchema = z.object({
+  user: UserSchema,
+  projects: z.array(ProjectWithRoleSchema)
+}).openapi('Me')
+
+export const MemberSchema = z.object({
+  user: UserSchema,
+  role: RoleSchema,
+  createdAt: z.string()
+}).openapi('Member')
+
+export const InviteSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  role: RoleSchema,
+  createdBy: z.string().nullable(),
+  expiresAt: z.string(),
+  createdAt: z.string()
+}).openapi('Invite')
+
+export const InviteLinkSchema = InviteSchema.extend({
+  token: z.string().openapi({ description: 'Shown once; only its hash is stored' }),
+  url: z.string()
+}).openapi('InviteLink')
+
+export const InvitePreviewSchema = z.object({
+  projectId: z.string(),
+  projectName: z.string(),
+  role: RoleSchema,
+  expiresAt: z.string()
+}).openapi('InvitePreview')
+
+export const AcceptInviteResultSchema = z.object({
+  user: UserSchema,
+  projectId: z.string(),
+  role: RoleSchema,
+  token: z.string().optional().openapi({ description: 'Only when the invite created a new account' }),
+  expiresAt: z.string().optional()
+}).openapi('AcceptInviteResult')
+
+export const ShareLinkSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  label: z.string(),
+  areaIds: z.array(z.string()).nullable().openapi({ description: 'null: every area' }),
+  categoryIds: z.array(z.number()).nullable().openapi({ description: 'null: every category' }),
+  trades: z.array(z.enum(TRADES)).nullable().openapi({ description: 'null: every item; otherwise only items tagged with one of these trades' }),
+  showPrices: z.boolean(),
+  createdBy: z.string().nullable(),
+  expiresAt: z.string(),
+  revokedAt: z.string().nullable(),
+  createdAt: z.string(),
+  url: z.string().nullable().openapi({ description: 'Read-only page for the link; null once revoked or expired' })
+}).openapi('ShareLink')
+
+export const ShareLinkAccessSchema = z.object({
+  level: z.string(),
+  message: z.string(),
+  ip: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.string()
+}).openapi('ShareLinkAccess')
 
 export const ItemSchema = z.object({
   id: z.string(),
   categoryId: z.number(),
   label: z.string(),
   note: z.string().nullable(),
+  price: z.number().nullable(),
   isChecked: z.boolean(),
-  sortOrder: z.number()
+  sortOrder: z.number(),
+  deletedAt: z.string().nullable(),
+  version: z.number(),
+  dueDate: z.string().nullable(),
+  assignee: z.string().nullable(),
+  trade: z.enum(TRADES).nullable()
 }).openapi('Item')
 
+export const AttachmentSchema = z.object({
+  id: z.string(),
+  itemId: z.string(),
+  fileName: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  storage: z.enum(['images', 'r2']),
+  url: z.string(),
+  thumbnailUrl: z.string().nullable(),
+  caption: z.string().nullable(),
+  createdAt: z.string()
+}).openapi('Attachment')
+
+export const AttachmentThumbnailSchema = AttachmentSchema.pick({
+  id: true,
+  fileName: true,
+  contentType: true,
+  url: true,
+  thumbnailUrl: true
+}).openapi('AttachmentThumbnail')
+
+export const ChecklistItemSchema = ItemSchema.extend({
+  attachments: z.array(AttachmentThumbnailSchema)
+}).openapi('ChecklistItem')
+
+export const ProgressSchema = z.object({
+  totalItems: z.number(),
+  checkedItems: z.number(),
+  percentComplete: z.number(),
+  checkedPrice: z.number()
+}).openapi('Progress')
+
 export const CategorySchema = z.object({
   id: z.number(),
   areaId: z.string(),
   name: z.string(),
+  type: z.enum(['radio', 'checkbox']).nullable(),
   sortOrder: z.number(),
-  items: z.array(ItemSchema)
+  progress: ProgressSchema,
+  items: z.array(ChecklistItemSchema)
 }).openapi('Category')
 
 export const AreaSchema = z.object({
   id: z.string(),
+  key: z.string().openapi({ description: "Slug such as 'kitchen', unique within the project" }),
   title: z.string(),
   icon: z.string(),
   sortOrder: z.number(),
+  progress: ProgressSchema,
   categories: z.array(CategorySchema)
 }).openapi('Area')
 
 export const ChecklistResponseSchema = z.record(AreaSchema).openapi('ChecklistResponse')
 
+export const ChecklistSummarySchema = z.object({
+  progress: ProgressSchema,
+  areas: z.array(AreaSchema.omit({ icon: true, sortOrder: true, categories: true }).extend({
+    categories: z.array(CategorySchema.pick({ id: true, name: true, progress: true }))
+  }))
+}).openapi('ChecklistSummary')
+
+export const ItemWithBreadcrumbsSchema = ItemSchema.extend({
+  area: z.object({ id: z.string(), title: z.string() }),
+  category: z.object({ id: z.number(), name: z.string() })
+}).openapi('ItemWithBreadcrumbs')
+
+export const UpcomingGroupSchema = z.object({
+  trade: z.enum(TRADES).nullable(),
+  overdue: z.array(ItemWithBreadcrumbsSchema),
+  dueSoon: z.array(ItemWithBreadcrumbsSchema)
+}).openapi('UpcomingGroup')
+
+export const ItemStatusUpdateSchema = z.object({
+  item: ItemSchema,
+  changed: z.array(ItemSchema),
+  blockedBy: z.array(ItemSchema).openapi({ description: 'Unchecked prerequisites that were overridden with force' })
+}).openapi('ItemStatusUpdate')
+
+export const ItemBlockedSchema = z.object({
+  message: z.string(),
+  blockedBy: z.array(ItemSchema)
+}).openapi('ItemBlocked')
+
+export const BlockedItemSchema = ItemWithBreadcrumbsSchema.extend({
+  blockedBy: z.array(ItemSchema)
+}).openapi('BlockedItem')
+
+export const ItemDependencySchema = z.object({
+  itemId: z.string(),
+  dependsOnId: z.string()
+}).openapi('ItemDependency')
+
+export const ItemDependenciesSchema = z.object({
+  prerequisites: z.array(ItemSchema),
+  dependents: z.array(ItemSchema)
+}).openapi('ItemDependencies')
+
+export const DependencyCycleSchema = z.object({
+  message: z.string(),
+  cycle: z.array(z.string())
+}).openapi('DependencyCycle')
+
+export const ItemConflictSchema = z.object({
+  message: z.string(),
+  current: ItemSchema
+}).openapi('ItemConflict')
+
+export const ItemEventSchema = z.object({
+  id: z.number(),
+  projectId: z.string().nullable(),
+  itemId: z.string().nullable(),
+  categoryId: z.number().nullable(),
+  areaId: z.string().nullable(),
+  action: z.enum(['create', 'update', 'delete', 'restore', 'purge', 'reorder']),
+  field: z.string().nullable(),
+  oldValue: z.unknown(),
+  newValue: z.unknown(),
+  actor: z.string().nullable(),
+  createdAt: z.string()
+}).openapi('ItemEvent')
+
+export const ActivityResponseSchema = z.object({
+  events: z.array(ItemEventSchema),
+  nextCursor: z.number().nullable()
+}).openapi('ActivityResponse')
+
+export const DecisionOptionSchema = z.object({
+  id: z.string(),
+  decisionId: z.string(),
+  label: z.string(),
+  description: z.string().nullable(),
+  price: z.number(),
+  sortOrder: z.number()
+}).openapi('DecisionOption')
+
+export const DecisionSchema = z.object({
+  id: z.string(),
+  areaId: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  chosenOptionId: z.string().nullable(),
+  chosenPrice: z.number().nullable(),
+  rationale: z.string().nullable(),
+  decidedBy: z.string().nullable(),
+  decidedAt: z.string().nullable(),
+  sortOrder: z.number(),
+  createdAt: z.string(),
+  options: z.array(DecisionOptionSchema)
+}).openapi('Decision')
+
+export const DecisionComparisonSchema = z.object({
+  decisionId: z.string(),
+  title: z.string(),
+  chosenOptionId: z.string().nullable(),
+  options: z.array(DecisionOptionSchema.extend({
+    isChosen: z.boolean(),
+    deltaFromChosen: z.number().openapi({ description: 'Price minus the chosen option price (or $0 while undecided)' })
+  })),
+  cheapestOptionId: z.string().nullable(),
+  priceSpread: z.number()
+}).openapi('DecisionComparison')
+
+export const DecisionDeltaSchema = z.object({
+  decisionId: z.string(),
+  from: DecisionOptionSchema.nullable(),
+  to: DecisionOptionSchema,
+  delta: z.number(),
+  committedBefore: z.number().openapi({ description: 'Sum of chosen option prices across all decisions today' }),
+  committedAfter: z.number()
+}).openapi('DecisionDelta')
+
+const ImportCountsSchema = z.object({
+  areas: z.number(),
+  categories: z.number(),
+  items: z.number()
+})
+
+export const ImportChangeSchema = z.object({
+  entity: z.enum(['area', 'category', 'item']),
+  action: z.enum(['create', 'update']),
+  key: z.string().openapi({ description: "Area key, 'areaKey/category name', or catalog item id" }),
+  fields: z.record(z.object({ from: z.unknown(), to: z.unknown() }))
+}).openapi('ImportChange')
+
+export const ImportResultSchema = z.object({
+  dryRun: z.boolean(),
+  format: z.enum(['options', 'grouped']),
+  created: ImportCountsSchema,
+  updated: ImportCountsSchema,
+  unchanged: z.number(),
+  changes: z.array(ImportChangeSchema)
+}).openapi('ImportResult')
+
+export const TemplateAreaSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/).openapi({ description: 'Area key; instantiating prepends the prefix' }),
+  title: z.string().min(1),
+  icon: z.string().min(1),
+  categories: z.array(z.object({
+    name: z.string().min(1),
+    type: z.enum(['radio', 'checkbox']).nullable().default(null),
+    items: z.array(z.object({
+      label: z.string().min(1),
+      price: z.number().int().min(0).nullable().default(null)
+    }))
+  }))
+}).openapi('TemplateArea')
+
+export const TemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  projectId: z.string().nullable().openapi({ description: 'Project the template was saved in; null for built-ins' }),
+  builtIn: z.boolean(),
+  areas: z.array(TemplateAreaSchema),
+  createdAt: z.string().nullable(),
+  updatedAt: z.string().nullable()
+}).openapi('Template')
+
+export const TemplateSummarySchema = TemplateSchema.omit({ areas: true }).extend({
+  counts: z.object({ areas: z.number(), categories: z.number(), items: z.number() })
+}).openapi('TemplateSummary')
+
+export const InstantiateResultSchema = z.object({
+  templateId: z.string(),
+  areaIds: z.array(z.string()),
+  counts: z.object({ areas: z.number(), categories: z.number(), items: z.number() })
+}).openapi('InstantiateResult')
+
+export const SyncAreaSchema = AreaSchema.pick({ id: true, key: true, title: true, icon: true, sortOrder: true }).openapi('SyncArea')
+
+export const SyncCategorySchema = CategorySchema.pick({ id: true, areaId: true, name: true, type: true, sortOrder: true }).openapi('SyncCategory')
+
+export const SyncResponseSchema = z.object({
+  cursor: z.number().openapi({ description: 'Pass as since on the next pull' }),
+  hasMore: z.boolean(),
+  areas: z.array(SyncAreaSchema),
+  categories: z.array(SyncCategorySchema),
+  items: z.array(ItemSchema),
+  deleted: z.object({
+    areas: z.array(z.string()),
+    categories: z.array(z.number()),
+    items: z.array(z.string()).openapi({ description: 'Includes items moved to the trash' })
+  })
+}).openapi('SyncResponse')
+
+export const BudgetStatusSchema = z.enum(BUDGET_STATUSES).openapi('BudgetStatus')
+
+export const BudgetItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  category: z.string(),
+  areaId: z.string().nullable(),
+  itemId: z.string().nullable().openapi({ description: 'Checklist item this line prices' }),
+  decisionOptionId: z.string().nullable().openapi({ description: 'Decision option this line prices' }),
+  origin: z.enum(BUDGET_ORIGINS).openapi({ description: "'selection' lines follow their item or option; 'manual' ones are never changed by the sync" }),
+  status: BudgetStatusSchema,
+  cost: z.number(),
+  variance: z.number().openapi({ description: 'Actual minus estimate; positive is over' }),
+  createdAt: z.string().nullable()
+}).openapi('BudgetItem')
+
+export const BudgetStatusEventSchema = z.object({
+  id: z.number(),
+  fromStatus: BudgetStatusSchema.nullable().openapi({ description: 'Null when the line was created' }),
+  toStatus: BudgetStatusSchema,
+  actor: z.string().nullable(),
+  createdAt: z.string()
+}).openapi('BudgetStatusEvent')
+
+export const QuoteSchema = z.object({
+  id: z.string(),
+  budgetItemId: z.string(),
+  vendor: z.string(),
+  amount: z.number(),
+  validUntil: z.string().nullable(),
+  includes: z.array(z.string()).openapi({ description: 'Scope items the price covers' }),
+  excludes: z.array(z.string()).openapi({ description: 'Scope items the vendor leaves out' }),
+  attachmentUrl: z.string().nullable(),
+  note: z.string().nullable(),
+  acceptedBy: z.string().nullable(),
+  acceptedAt: z.string().nullable().openapi({ description: 'Set on the accepted quote only' }),
+  createdAt: z.string()
+}).openapi('Quote')
+
+export const QuoteComparisonSchema = z.object({
+  budgetItem: BudgetItemSchema,
+  scope: z.array(z.string()).openapi({ description: 'Every scope item any of the quotes includes' }),
+  quotes: z.array(QuoteSchema.extend({
+    rank: z.number().int().openapi({ description: 'Current quotes before expired ones, then most complete, then cheapest' }),
+    priceRank: z.number().int().openapi({ description: '1 is the cheapest' }),
+    completeness: z.number().openapi({ description: 'Share of the scope the quote covers, 0 to 1' }),
+    missing: z.array(z.string()).openapi({ description: 'Scope items the quote does not include, or excludes' }),
+    expired: z.boolean(),
+    difference: z.number().openapi({ description: "amount - the line's cost" })
+  })).openapi({ description: 'Best first' })
+}).openapi('QuoteComparison')
+
+export const BudgetAllocationSchema = z.object({
+  id: z.string(),
+  scope: z.enum(['category', 'area']),
+  scopeKey: z.string().openapi({ description: 'Budget item category name, or area id' }),
+  amount: z.number(),
+  note: z.string().nullable(),
+  updatedAt: z.string()
+}).openapi('BudgetAllocation')
+
+const BudgetTotalsSchema = z.object({
+  estimated: z.number().openapi({ description: 'Cost of every budget line that is not Cancelled, decided or not' }),
+  committed: z.number().openapi({ description: 'Cost of lines that are Pending or later' }),
+  spent: z.number().openapi({ description: 'Cost of lines that are Ordered or later' })
+})
+
+export const BudgetEnvelopeSchema = BudgetTotalsSchema.extend({
+  id: z.string(),
+  scope: z.enum(['category', 'area']),
+  scopeKey: z.string(),
+  label: z.string().openapi({ description: 'Category name, or area title' }),
+  allocated: z.number(),
+  remaining: z.number().openapi({ description: 'allocated - committed' })
+}).openapi('BudgetEnvelope')
+
+export const BudgetWarningSchema = z.object({
+  type: z.enum(['envelope_over', 'envelope_at_risk', 'allocations_exceed_total', 'unallocated']),
+  scope: z.enum(['category', 'area']).nullable(),
+  scopeKey: z.string().nullable(),
+  amount: z.number().openapi({ description: 'How far over, or how much is outside any envelope' }),
+  message: z.string()
+}).openapi('BudgetWarning')
+
+export const BudgetReconciliationSchema = z.object({
+  unbudgeted: z.array(z.object({
+    type: z.enum(['item', 'decisionOption']),
+    id: z.string(),
+    decisionId: z.string().nullable(),
+    label: z.string(),
+    areaId: z.string(),
+    price: z.number()
+  })).openapi({ description: 'Checked priced items and chosen priced options with no budget line, or only a cancelled one' }),
+  unselected: z.array(BudgetItemSchema.extend({
+    reason: z.enum(['unlinked', 'notSelected'])
+  })).openapi({ description: 'Budget lines with no selection behind them' }),
+  mismatched: z.array(z.object({
+    budgetItem: BudgetItemSchema,
+    price: z.number()
+  })).openapi({ description: 'Linked lines whose cost differs from the current price' }),
+  unbudgetedTotal: z.number(),
+  unselectedTotal: z.number()
+}).openapi('BudgetReconciliation')
+
+export const BudgetSummarySchema = BudgetTotalsSchema.extend({
+  total: z.number().openapi({ description: 'Project budget; 0 until set' }),
+  remaining: z.number().openapi({ description: 'total - committed' }),
+  allocated: z.object({
+    category: z.number(),
+    area: z.number()
+  }).openapi({ description: 'Sum of envelopes by scope; each should stay within total' }),
+  envelopes: z.array(BudgetEnvelopeSchema),
+  warnings: z.array(BudgetWarningSchema)
+}).openapi('BudgetSummary')
+
 export const ErrorSchema = z.object({
   message: z.string()
 }).openapi('Error')
 
 // Request Schemas
+export const CreateProjectSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/).optional(),
+  name: z.string().min(1)
+})
+
+export const UpdateProjectSchema = z.object({
+  name: z.string().min(1)
+})
+
+export const BootstrapSchema = z.object({
+  secret: z.string().openapi({ description: 'Must match the AUTH_BOOTSTRAP_SECRET secret' }),
+  name: z.string().min(1)
+})
+
+export const CreateSessionSchema = z.object({
+  label: z.string().optional().openapi({ example: 'Kitchen iPad' })
+})
+
+export const CreateInviteSchema = z.object({
+  role: RoleSchema,
+  expiresInDays: z.number().int().min(1).max(30).default(7)
+})
+
+export const CreateShareLinkSchema = z.object({
+  label: z.string().min(1),
+  areaIds: z.array(z.string()).min(1).optional(),
+  categoryIds: z.array(z.number().int()).min(1).optional(),
+  trades: z.array(z.enum(TRADES)).min(1).optional(),
+  showPrices: z.boolean().default(false),
+  expiresInDays: z.number().int().min(1).max(90).default(14)
+})
+
+export const AcceptInviteSchema = z.object({
+  name: z.string().min(1).optional().openapi({ description: 'Required unless the request is already signed in' })
+})
+
+export const UpdateMemberSchema = z.object({
+  role: RoleSchema
+})
+
+const ForceSchema = z.boolean().optional()
+  .openapi({ description: 'Check the item even if prerequisites are still unchecked' })
+
 export const UpdateStatusSchema = z.object({
-  isChecked: z.boolean()
+  isChecked: z.boolean(),
+  force: ForceSchema
 })
 
 export const UpdateNoteSchema = z.object({
@@ -42,13 +525,413 @@ export const UpdateNoteSchema = z.object({
 
 export const CreateItemSchema = z.object({
   label: z.string(),
+  note: z.string().optional(),
+  dueDate: IsoDateSchema.optional(),
+  assignee: z.string().optional(),
+  trade: z.enum(TRADES).optional()
+})
+
+export const UpdateItemSchema = z.object({
+  version: z.number().int().openapi({ description: 'Version of the item the client last read' }),
+  label: z.string().min(1).optional(),
+  note: z.string().nullable().optional(),
+  price: z.number().int().nullable().optional(),
+  categoryId: z.number().int().optional(),
+  isChecked: z.boolean().optional(),
+  dueDate: IsoDateSchema.nullable().optional(),
+  assignee: z.string().nullable().optional(),
+  trade: z.enum(TRADES).nullable().optional(),
+  force: ForceSchema
+})
+
+export const UploadAttachmentSchema = z.object({
+  file: z.instanceof(File).openapi({ type: 'string', format: 'binary' }),
+  caption: z.string().optional()
+})
+
+export const AddDependencySchema = z.object({
+  dependsOnId: z.string()
+})
+
+const DecisionOptionFields = z.object({
+  label: z.string().min(1),
+  description: z.string().nullable(),
+  price: z.number().int().min(0),
+  sortOrder: z.number().int()
+})
+
+export const CreateDecisionOptionSchema = DecisionOptionFields.partial({ description: true, price: true, sortOrder: true }).extend({
+  id: z.string().regex(/^[a-z0-9_-]+$/).optional()
+})
+
+export const UpdateDecisionOptionSchema = DecisionOptionFields.partial()
+
+export const CreateDecisionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/).optional(),
+  areaId: z.string(),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  sortOrder: z.number().int().optional(),
+  options: z.array(CreateDecisionOptionSchema).default([])
+})
+
+export const UpdateDecisionSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().nullable(),
+  sortOrder: z.number().int()
+}).partial()
+
+export const ChooseOptionSchema = z.object({
+  optionId: z.string().nullable().openapi({ description: 'Option to choose, or null to reopen the decision' }),
+  rationale: z.string().optional()
+})
+
+// Decision catalogs (todo_schema.json, todo_schema_2.json)
+const CatalogOptionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  price: z.number().int().min(0),
+  desc: z.string().optional()
+})
+
+// todo_schema.json: areas with radio/checkbox option groups and a plain checklist
+export const OptionsCatalogSchema = z.record(z.object({
+  title: z.string().min(1),
+  icon: z.string().min(1).openapi({ description: 'Lucide icon name, e.g. "Droplets"' }),
+  desc: z.string().optional(),
+  options: z.array(z.object({
+    id: z.string(),
+    label: z.string().min(1),
+    type: z.enum(['radio', 'checkbox']),
+    items: z.array(CatalogOptionSchema)
+  })).default([]),
+  checklist: z.array(z.string().min(1)).default([])
+})).openapi('OptionsCatalog')
+
+// todo_schema_2.json: area key -> group key -> priced options
+export const GroupedCatalogSchema = z.record(z.record(z.array(CatalogOptionSchema))).openapi('GroupedCatalog')
+
+export const ImportCatalogSchema = z.union([OptionsCatalogSchema, GroupedCatalogSchema])
+
+export const ImportQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional().transform((v) => v === 'true')
+})
+
+const TemplateIdSchema = z.string().regex(/^[a-z0-9-]+$/)
+
+export const CreateTemplateSchema = z.object({
+  id: TemplateIdSchema.optional(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  areas: z.array(TemplateAreaSchema).min(1)
+})
+
+export const SnapshotTemplateSchema = z.object({
+  id: TemplateIdSchema.optional(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  areaIds: z.array(z.string()).min(1).optional().openapi({ description: 'Only these areas; defaults to the whole checklist' })
+})
+
+export const UpdateTemplateSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().nullable(),
+  areas: z.array(TemplateAreaSchema).min(1)
+}).partial()
+
+export const InstantiateTemplateSchema = z.object({
+  prefix: z.string().regex(/^[a-z0-9_]*$/).default('')
+    .openapi({ description: "Prepended to every area key, e.g. 'house2_' gives 'house2_kitchen'; only needed when the project already has those areas" })
+})
+
+export const CreateBudgetItemSchema = z.object({
+  name: z.string().min(1),
+  category: z.string().min(1).default('Uncategorized'),
+  areaId: z.string().nullable().optional(),
+  itemId: z.string().nullable().optional(),
+  decisionOptionId: z.string().nullable().optional(),
+  status: BudgetStatusSchema.default('Estimating').openapi({ description: 'Estimating, Decision Needed or Pending' }),
+  cost: z.number().min(0),
+  variance: z.number().default(0)
+})
+
+export const UpdateBudgetItemSchema = z.object({
+  name: z.string().min(1).optional(),
+  category: z.string().min(1).optional(),
+  areaId: z.string().nullable().optional(),
+  itemId: z.string().nullable().optional(),
+  decisionOptionId: z.string().nullable().optional(),
+  status: BudgetStatusSchema.optional().openapi({ description: 'Must be a move the workflow allows from the current status' }),
+  cost: z.number().min(0).optional(),
+  variance: z.number().optional()
+})
+
+export const CreateQuoteSchema = z.object({
+  vendor: z.string().min(1),
+  amount: z.number().min(0),
+  validUntil: IsoDateSchema.optional(),
+  includes: z.array(z.string().min(1)).default([]),
+  excludes: z.array(z.string().min(1)).default([]),
+  attachmentUrl: z.string().min(1).optional(),
   note: z.string().optional()
 })
 
-export const ItemIdParam = z.object({
+export const UpdateQuoteSchema = z.object({
+  vendor: z.string().min(1).optional(),
+  amount: z.number().min(0).optional(),
+  validUntil: IsoDateSchema.nullable().optional(),
+  includes: z.array(z.string().min(1)).optional(),
+  excludes: z.array(z.string().min(1)).optional(),
+  attachmentUrl: z.string().min(1).nullable().optional(),
+  note: z.string().nullable().optional()
+})
+
+export const SetBudgetTotalSchema = z.object({
+  total: z.number().min(0)
+})
+
+export const SetBudgetAllocationSchema = z.object({
+  scope: z.enum(['category', 'area']),
+  scopeKey: z.string().min(1).openapi({ description: 'Budget item category name (e.g. Contingency), or area id' }),
+  amount: z.number().min(0),
+  note: z.string().nullable().optional()
+})
+
+export const BudgetItemsQuerySchema = z.object({
+  category: z.string().optional(),
+  areaId: z.string().optional(),
+  status: BudgetStatusSchema.optional()
+})
+
+export const CreateAreaSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/).optional().openapi({ description: 'Derived from the title when omitted' }),
+  title: z.string().min(1),
+  icon: z.string().min(1),
+  sortOrder: z.number().int().optional()
+})
+
+export const UpdateAreaSchema = z.object({
+  title: z.string().min(1),
+  icon: z.string().min(1),
+  sortOrder: z.number().int()
+}).partial()
+
+export const CreateCategorySchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['radio', 'checkbox']).optional(),
+  sortOrder: z.number().int().optional()
+})
+
+export const UpdateCategorySchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['radio', 'checkbox']),
+  sortOrder: z.number().int()
+}).partial()
+
+export const ReorderItemsSchema = z.object({
+  ids: z.array(z.string()).min(1)
+})
+
+export const ReorderCategoriesSchema = z.object({
+  ids: z.array(z.number().int()).min(1)
+})
+
+export const ReorderAreasSchema = z.object({
+  ids: z.array(z.string()).min(1)
+})
+
+export const MoveItemSchema = z.object({
+  version: z.number().int().openapi({ description: 'Version of the item the client last read' }),
+  categoryId: z.number().int(),
+  index: z.number().int().min(0)
+})
+
+export const ChecklistQuerySchema = z.object({
+  includeDeleted: z.enum(['true', 'false']).optional().transform((v) => v === 'true')
+})
+
+export const ExportQuerySchema = z.object({
+  format: z.enum(['csv', 'md', 'pdf']).default('pdf')
+    .openapi({ description: 'pdf falls back to printable HTML when Browser Rendering is not configured' })
+})
+
+// WebSocket message to /agents/checklist-sync/{projectId}; see agents/checklist-sync.ts
+export const SyncSubscribeSchema = z.object({
+  type: z.literal('subscribe'),
+  areaIds: z.array(z.string()).min(1).nullable().default(null).openapi({ description: 'null: every area' }),
+  since: z.number().int().min(0).optional().openapi({ description: 'Last seq the client applied; omit on first connect' })
+})
+
+export const SyncQuerySchema = z.object({
+  since: z.coerce.number().int().min(0).default(0).openapi({ description: 'cursor from the previous response; 0 for a full download' }),
+  limit: z.coerce.number().int().min(1).max(1000).default(500)
+})
+
+const ItemFieldsSchema = UpdateItemSchema.omit({ version: true, force: true })
+const ItemFieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()])
+
+export const SyncMutationSchema = z.discriminatedUnion('op', [
+  z.object({
+    id: z.string().openapi({ description: 'Client mutation id, echoed in the result' }),
+    op: z.literal('create'),
+    itemId: z.string().openapi({ description: 'Client-generated (UUID) id; replaying a create is a no-op' }),
+    categoryId: z.number().int(),
+    fields: CreateItemSchema
+  }),
+  z.object({
+    id: z.string(),
+    op: z.literal('update'),
+    itemId: z.string(),
+    fields: ItemFieldsSchema,
+    base: ItemFieldsSchema.optional()
+      .openapi({ description: 'Values of the changed fields when the client last synced; a field the server changed since conflicts' }),
+    changedAt: z.string().datetime().openapi({ description: 'When the edit was made on the client; the later write wins a conflict' }),
+    force: ForceSchema
+  }),
+  z.object({
+    id: z.string(),
+    op: z.literal('delete'),
+    itemId: z.string()
+  })
+]).openapi('SyncMutation')
+
+export const SyncPushSchema = z.object({
+  mutations: z.array(SyncMutationSchema).min(1).max(100)
+})
+
+export const SyncConflictSchema = z.object({
+  field: z.string(),
+  clientValue: ItemFieldValueSchema,
+  serverValue: ItemFieldValueSchema,
+  winner: z.enum(['client', 'server'])
+}).openapi('SyncConflict')
+
+export const SyncMutationResultSchema = z.object({
+  id: z.string(),
+  status: z.enum(['applied', 'rejected']),
+  message: z.string().optional(),
+  item: ItemSchema.nullable().openapi({ description: 'Server copy after the mutation; null once deleted' }),
+  conflicts: z.array(SyncConflictSchema)
+}).openapi('SyncMutationResult')
+
+export const SyncPushResultSchema = z.object({
+  results: z.array(SyncMutationResultSchema)
+}).openapi('SyncPushResult')
+
+export const PurgeItemsSchema = z.object({
+  olderThanDays: z.number().int().min(0).default(30)
+})
+
+export const PurgeResponseSchema = z.object({
+  ids: z.array(z.string())
+})
+
+const optionalBooleanQuery = z.enum(['true', 'false']).optional()
+  .transform((v) => (v === undefined ? undefined : v === 'true'))
+
+export const SearchQuerySchema = z.object({
+  q: z.string().optional().openapi({ description: 'Full-text match over label and note (prefix matching per word)' }),
+  areaId: z.string().optional(),
+  categoryId: z.coerce.number().int().optional(),
+  isChecked: optionalBooleanQuery,
+  hasNote: optionalBooleanQuery,
+  minPrice: z.coerce.number().optional(),
+  maxPrice: z.coerce.number().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+export const UpcomingQuerySchema = z.object({
+  days: z.coerce.number().int().min(0).max(365).default(14).openapi({ description: 'How far ahead counts as due soon' })
+})
+
+export const ActivityQuerySchema = z.object({
+  areaId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  before: z.coerce.number().int().optional().openapi({ description: 'Event id cursor from a previous page' })
+})
+
+export const DecisionsQuerySchema = z.object({
+  areaId: z.string().optional()
+})
+
+export const DecisionDeltaQuerySchema = z.object({
+  optionId: z.string().openapi({ description: 'Option to price a switch to' })
+})
+
+export const DeleteQuerySchema = z.object({
+  cascade: z.enum(['true', 'false']).optional().transform((v) => v === 'true')
+})
+
+export const ProjectIdParam = z.object({
+  projectId: z.string()
+})
+
+export const MemberParam = ProjectIdParam.extend({
+  userId: z.string()
+})
+
+export const InviteIdParam = ProjectIdParam.extend({
+  inviteId: z.string()
+})
+
+export const InviteTokenParam = z.object({
+  token: z.string()
+})
+
+export const ShareLinkIdParam = ProjectIdParam.extend({
+  shareLinkId: z.string()
+})
+
+export const ShareTokenParam = z.object({
+  token: z.string()
+})
+
+export const ItemIdParam = ProjectIdParam.extend({
   id: z.string()
 })
 
-export const CategoryIdParam = z.object({
+export const DependencyParam = ProjectIdParam.extend({
+  id: z.string(),
+  dependsOnId: z.string()
+})
+
+export const AttachmentIdParam = ProjectIdParam.extend({
+  attachmentId: z.string()
+})
+
+export const DecisionIdParam = ProjectIdParam.extend({
+  decisionId: z.string()
+})
+
+export const DecisionOptionParam = ProjectIdParam.extend({
+  decisionId: z.string(),
+  optionId: z.string()
+})
+
+export const TemplateIdParam = z.object({
+  templateId: z.string()
+})
+
+export const ProjectTemplateParam = ProjectIdParam.extend({
+  templateId: z.string()
+})
+
+export const BudgetItemIdParam = ProjectIdParam.extend({
+  budgetItemId: z.string()
+})
+
+export const QuoteIdParam = BudgetItemIdParam.extend({
+  quoteId: z.string()
+})
+
+export const BudgetAllocationIdParam = ProjectIdParam.extend({
+  allocationId: z.string()
+})
+
+export const AreaIdParam = ProjectIdParam.extend({
+  areaId: z.string()
+})
+
+export const CategoryIdParam = ProjectIdParam.extend({
   categoryId: z.string().transform((v) => parseInt(v, 10)).openapi({ type: 'integer' })
 })
@@ -10,8 +10,12 @@ interface Env {
 	CLOUDFLARE_ACCOUNT_ID: string;
 	CLOUDFLARE_IMAGES_TOKEN: string;
 	GEMINI_API_KEY: string;
+	AUTH_BOOTSTRAP_SECRET: string;
+	SHARE_LINK_SECRET: string;
 	OPENAI_AGENT: DurableObjectNamespace<import("./src/index").OpenAIAgent>;
 	RESEARCH_AGENT: DurableObjectNamespace<import("./src/index").ResearchAgent>;
+	CHECKLIST_SYNC: DurableObjectNamespace<import("./src/index").ChecklistSync>;
 	DB: D1Database;
+	ATTACHMENTS: R2Bucket;
 	AI: Ai;
 }